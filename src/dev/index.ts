@@ -1 +1,7 @@
 ﻿export * from './logging'
+export * from './log-registry'
+export * from './log-sampling'
+export * from './metrics'
+export * from './redaction'
+export * from './rotating-file'
+export * from './sinks'
\ No newline at end of file
@@ -0,0 +1,321 @@
+﻿import path from 'path';
+
+import { FileWatcher, LiveConfig, TimeSpan } from 'dash-core';
+import { ConfigReader } from '../io/config-reader';
+import { isPlainObject } from '../io/config-schema';
+import { globToRegExp } from '../io/glob';
+import { LogLevel, ServiceLogger } from './logging';
+
+
+/** A runtime level: an entry level, or `off` to write no entries at all. */
+export type LogSettingLevel = LogLevel | 'off';
+
+/** Runtime levels and filters of services, e.g. read from a config file or the `DASH_LOG` environment variable. */
+export type LogSettings = {
+    /** The level of every service without a more specific level. */
+    level?: LogSettingLevel,
+
+    /** Levels by service name or wildcard pattern, e.g. `{ 'db.*': 'debug', 'api.health': 'off' }`. */
+    levels?: Record<string, LogSettingLevel>,
+
+    /**
+     * Service names or wildcard patterns to include, or to exclude when prefixed with `!`, e.g. `['!api.*', 'api.orders']`.
+     * Services no entry matches are included.
+     */
+    filter?: string | string[],
+}
+
+type watchOptions = {
+    /** How long to wait after the last file change before the settings are reloaded. */
+    debounce: TimeSpan,
+
+    /** Optional logger recording reloads and rejected settings. */
+    logger?: ServiceLogger,
+}
+
+type servicePattern = {
+    pattern: string,
+    regex: RegExp,
+    specificity: number
+}
+
+/**
+ * Knows every `ServiceLogger` by service name and holds the levels and filters applied to them at runtime.
+ * Settings are matched against service names, with exact names taking precedence over wildcard patterns
+ * and longer patterns over shorter ones; services no setting matches keep the options they were created with.
+ * Filters only hold back debug and info entries; levels apply to every entry.
+ */
+export class LogRegistry {
+    private static readonly loggers = new Map<string, Set<WeakRef<ServiceLogger>>>();
+    private static readonly levels = new Map<string, LogSettingLevel>();
+    private static readonly filter = new Map<string, boolean>();
+    private static readonly patterns = new Map<string, servicePattern>();
+
+    /** Gets the names of the services with at least one live logger, sorted. */
+    static get services(): string[] {
+        return [...LogRegistry.loggers.keys()].filter((name) => LogRegistry.get(name).length > 0).sort();
+    }
+
+    /**
+     * Records a logger under its service name. Called by the `ServiceLogger` constructor.
+     * @param {ServiceLogger} logger - The logger.
+     */
+    static register(logger: ServiceLogger): void {
+        const references = LogRegistry.loggers.get(logger.serviceName) ?? new Set<WeakRef<ServiceLogger>>();
+        LogRegistry.loggers.set(logger.serviceName, references.add(new WeakRef(logger)));
+    }
+
+    /**
+     * Gets the live loggers of a service.
+     * @param {string} serviceName - The service name.
+     * @returns {ServiceLogger[]} The loggers, in order of creation.
+     */
+    static get(serviceName: string): ServiceLogger[] {
+        const references = LogRegistry.loggers.get(serviceName);
+        const result: ServiceLogger[] = [];
+
+        for (const reference of references ?? []) {
+            const logger = reference.deref();
+
+            if (logger)
+                result.push(logger);
+            else
+                references!.delete(reference);
+        }
+
+        return result;
+    }
+
+    /**
+     * Sets the level of the services matching a pattern, replacing the level they were created with.
+     * @param {string} pattern - A service name or a wildcard pattern such as `db.*`; `*` matches every service.
+     * @param {LogSettingLevel | undefined} level - The level, `off` to silence the services entirely, or undefined to remove the setting.
+     */
+    static setLevel(pattern: string, level: LogSettingLevel | undefined): void {
+        if (level === undefined) {
+            LogRegistry.levels.delete(pattern);
+            return;
+        }
+
+        LogRegistry.levels.set(pattern, parseLevel(level, pattern));
+    }
+
+    /**
+     * Replaces the filter deciding which services write entries at all.
+     * @param {string | string[]} filter - Service names or wildcard patterns, excluded when prefixed with `!`; a string is split at commas.
+     */
+    static setFilter(filter: string | string[]): void {
+        LogRegistry.filter.clear();
+
+        for (const [pattern, included] of parseFilter(filter))
+            LogRegistry.filter.set(pattern, included);
+    }
+
+    /**
+     * Replaces every runtime setting.
+     * @param {LogSettings} settings - The settings; levels and filters missing from them are removed.
+     * @throws {Error} If a level is unknown.
+     */
+    static configure(settings: LogSettings): void {
+        const normalized = normalizeSettings(settings);
+
+        LogRegistry.levels.clear();
+
+        if (normalized.level)
+            LogRegistry.setLevel('*', normalized.level);
+
+        for (const [pattern, level] of Object.entries(normalized.levels ?? {}))
+            LogRegistry.setLevel(pattern, level);
+
+        LogRegistry.setFilter(normalized.filter ?? []);
+    }
+
+    /**
+     * Removes every runtime setting, so loggers use the options they were created with again.
+     */
+    static reset(): void {
+        LogRegistry.levels.clear();
+        LogRegistry.filter.clear();
+    }
+
+    /**
+     * Parses the compact settings syntax of the `DASH_LOG` environment variable: comma separated items that are
+     * either a level (`info`), a level of a service or pattern (`db.*=debug`, `api.health=off`), or a filter entry (`api.*`, `!api.health`).
+     * @param {string} value - The settings, e.g. `info,db.*=debug,!api.health`.
+     * @returns {LogSettings} The parsed settings.
+     * @throws {Error} If a level is unknown.
+     */
+    static parse(value: string): LogSettings {
+        const settings: LogSettings = {};
+        const filter: string[] = [];
+
+        for (const raw of value.split(',')) {
+            const item = raw.trim();
+            const separator = item.indexOf('=');
+
+            if (item === '')
+                continue;
+
+            if (separator >= 0)
+                settings.levels = { ...settings.levels, [item.slice(0, separator).trim()]: parseLevel(item.slice(separator + 1).trim(), item) };
+            else if (isLevel(item))
+                settings.level = item;
+            else
+                filter.push(item);
+        }
+
+        if (filter.length > 0)
+            settings.filter = filter;
+
+        return settings;
+    }
+
+    /**
+     * Applies the settings of an environment variable, see `parse`.
+     * @param {string} [variable] - The name of the variable (default is `DASH_LOG`).
+     * @param {Record<string, string | undefined>} [env] - The environment variables (default is `process.env`).
+     * @returns {boolean} True if the variable was set and applied.
+     * @throws {Error} If a level is unknown.
+     */
+    static fromEnvironment(variable: string = 'DASH_LOG', env: Record<string, string | undefined> = process.env): boolean {
+        const value = env[variable];
+
+        if (value === undefined || value.trim() === '')
+            return false;
+
+        LogRegistry.configure(LogRegistry.parse(value));
+        return true;
+    }
+
+    /**
+     * Applies the settings of a config file in any format registered in `ConfigParsers` and re-applies them whenever
+     * the file changes. A version with unknown levels is rejected and the last good settings stay in effect;
+     * a missing file counts as empty settings.
+     * @param {string} filePath - The path of the settings file.
+     * @param {Partial<watchOptions>} [options] - Options of the watch.
+     * @param {TimeSpan} [options.debounce] - How long to wait after the last file change before reloading (default is 300 milliseconds).
+     * @param {ServiceLogger} [options.logger] - Optional logger recording reloads and rejected settings.
+     * @returns {Promise<LiveConfig<LogSettings>>} A promise that resolves to the live settings; close it to stop following the file.
+     * @throws {Error} If the initial settings contain an unknown level.
+     */
+    static async watch(filePath: string, options?: Partial<watchOptions>): Promise<LiveConfig<LogSettings>> {
+        const resolved = path.resolve(filePath);
+        const load = async () => normalizeSettings(await ConfigReader.load<LogSettings>({ path: resolved, defaults: {}, environment: '', optional: true }));
+
+        const initial = await load();
+        const watcher = new FileWatcher(resolved, { debounce: options?.debounce ?? TimeSpan.fromMilliseconds(300), logger: options?.logger });
+
+        await watcher.start();
+
+        const settings = new LiveConfig(initial, load, watcher, options?.logger);
+
+        LogRegistry.configure(initial);
+        settings.onChange(({ current }) => LogRegistry.configure(current));
+
+        return settings;
+    }
+
+    /**
+     * Gets the runtime level of a service: the level of the most specific matching pattern.
+     * @param {string} serviceName - The service name.
+     * @returns {LogSettingLevel | undefined} The level, or undefined if no setting matches.
+     */
+    static getLevel(serviceName: string): LogSettingLevel | undefined {
+        return LogRegistry.match(LogRegistry.levels, serviceName);
+    }
+
+    /**
+     * Determines whether a service passes the runtime filter, by the most specific matching filter entry.
+     * @param {string} serviceName - The service name.
+     * @returns {boolean | undefined} Whether the service writes entries, or undefined if no filter entry matches.
+     */
+    static isObservable(serviceName: string): boolean | undefined {
+        return LogRegistry.match(LogRegistry.filter, serviceName);
+    }
+
+    private static match<T>(settings: Map<string, T>, serviceName: string): T | undefined {
+        let best: servicePattern | undefined;
+
+        for (const pattern of settings.keys()) {
+            const compiled = LogRegistry.compile(pattern);
+
+            if (compiled.regex.test(serviceName) && (!best || compiled.specificity >= best.specificity))
+                best = compiled;
+        }
+
+        return best && settings.get(best.pattern);
+    }
+
+    private static compile(pattern: string): servicePattern {
+        let compiled = LogRegistry.patterns.get(pattern);
+
+        if (!compiled) {
+            const literal = pattern.replace(/[*?[\]{}]/g, '');
+
+            compiled = {
+                pattern,
+                regex: globToRegExp(pattern),
+                specificity: literal === pattern ? Infinity : literal.length
+            };
+
+            LogRegistry.patterns.set(pattern, compiled);
+        }
+
+        return compiled;
+    }
+}
+
+/**
+ * Parses filter entries; entries prefixed with `!` are excluded, all others included.
+ */
+function parseFilter(filter?: string | string[]): Map<string, boolean> {
+    const map = new Map<string, boolean>();
+    const items = typeof filter === 'string' ? filter.split(',') : filter ?? [];
+
+    for (const raw of items) {
+        const item = raw.trim();
+
+        if (item === '')
+            continue;
+
+        map.set(item.replace(/^!/, '').trim(), !item.startsWith('!'));
+    }
+
+    return map;
+}
+
+function getSettingLevels(): LogSettingLevel[] {
+    return [...Object.values(LogLevel), 'off'];
+}
+
+function isLevel(value: unknown): value is LogSettingLevel {
+    return getSettingLevels().includes(value as LogSettingLevel);
+}
+
+function parseLevel(value: unknown, origin: string): LogSettingLevel {
+    if (!isLevel(value)) {
+        throw new Error(`Unknown log level ${JSON.stringify(value)} in ${origin}, expected one of ${getSettingLevels().join(', ')}`);
+    }
+
+    return value;
+}
+
+function normalizeSettings(settings: LogSettings): LogSettings {
+    const result: LogSettings = {};
+
+    if (settings.level !== undefined)
+        result.level = parseLevel(settings.level, 'level');
+
+    if (settings.levels !== undefined) {
+        if (!isPlainObject(settings.levels)) {
+            throw new Error('The levels of the log settings must be an object of service patterns and levels');
+        }
+
+        result.levels = Object.fromEntries(Object.entries(settings.levels).map(([pattern, level]) => [pattern, parseLevel(level, pattern)]));
+    }
+
+    if (settings.filter !== undefined)
+        result.filter = settings.filter;
+
+    return result;
+}
@@ -0,0 +1,150 @@
+﻿import { createHash } from 'crypto';
+import { format, inspect } from 'util';
+
+import { Rate, RateLimiter, TimeSpan } from 'dash-core';
+import { LogLevel } from './logging';
+
+
+/** How a logger thins out noisy output. Every setting is off unless given. */
+export type LogSamplingOptions = {
+    /** The maximum rate of entries; entries beyond it are dropped and reported in a summary entry later. */
+    rate?: Rate,
+
+    /** The window in which repeats of an entry with the same key are collapsed into one summary line. */
+    duplicateWindow?: TimeSpan,
+
+    /** The fraction of debug entries kept, between 0 and 1. */
+    debugSampleRate?: number,
+
+    /** Identifies repeats; entries with the same key are collapsed. */
+    key?: (entry: LogSampleEntry) => string,
+}
+
+/** An entry offered to the sampler. */
+export type LogSampleEntry = {
+    level: LogLevel,
+
+    /** The message, before its arguments are interpolated. */
+    message: string,
+
+    /** The arguments passed after the message. */
+    meta: unknown[],
+
+    /** The contextual fields of the logger writing the entry. */
+    fields: Record<string, unknown>,
+}
+
+/** Writes an entry on behalf of the sampler, bypassing it. */
+export type LogSampleWriter = (level: LogLevel, message: string, meta: unknown[]) => void;
+
+type repeatWindow = {
+    level: LogLevel,
+    message: string,
+    meta: unknown[],
+    count: number,
+    timer: NodeJS.Timeout,
+    write: LogSampleWriter
+}
+
+/**
+ * Decides which entries of a logger are written: collapses repeats within a window, samples debug entries
+ * and limits the rate of the rest. The first occurrence of a warning or an error always passes.
+ */
+export class LogSampler {
+    private readonly limiter?: RateLimiter;
+    private readonly windows = new Map<string, repeatWindow>();
+
+    private dropped: number = 0;
+
+    /**
+     * Creates an instance of the LogSampler class.
+     * @param {LogSamplingOptions} options - Configuration options for the sampling.
+     * @param {Rate} [options.rate] - The maximum rate of entries (default is no limit).
+     * @param {TimeSpan} [options.duplicateWindow] - The window in which repeats are collapsed (default is no collapsing).
+     * @param {number} [options.debugSampleRate] - The fraction of debug entries kept (default is all of them).
+     * @param {(entry: LogSampleEntry) => string} [options.key] - Identifies repeats (default is the level, the message with its arguments interpolated and the fields).
+     */
+    constructor(private readonly options: LogSamplingOptions) {
+        const sampleRate = options.debugSampleRate;
+
+        if (sampleRate !== undefined && !(sampleRate >= 0 && sampleRate <= 1)) {
+            throw new Error('The debug sample rate must be between 0 and 1');
+        }
+
+        if (options.rate)
+            this.limiter = new RateLimiter(options.rate);
+    }
+
+    /**
+     * Decides whether an entry is written. Summaries of collapsed repeats and dropped entries are written through `write`.
+     * @param {LogSampleEntry} entry - The entry.
+     * @param {LogSampleWriter} write - Writes summary entries, with the fields of the logger writing the entry.
+     * @returns {boolean} True if the entry is written.
+     */
+    public accept(entry: LogSampleEntry, write: LogSampleWriter): boolean {
+        const { level } = entry;
+        const key = (this.options.key ?? getSampleKey)(entry);
+        const window = this.windows.get(key);
+
+        if (window) {
+            window.count++;
+            return false;
+        }
+
+        const important = level === LogLevel.ERROR || level === LogLevel.WARNING;
+
+        if (!important) {
+            if (level === LogLevel.DEBUG && this.options.debugSampleRate !== undefined && Math.random() >= this.options.debugSampleRate)
+                return false;
+
+            if (this.limiter && !this.limiter.tryAcquire()) {
+                this.dropped++;
+                return false;
+            }
+        }
+
+        if (this.dropped > 0) {
+            write(LogLevel.WARNING, `Dropped ${this.dropped} log entries exceeding the rate limit`, [{ dropped: this.dropped }]);
+            this.dropped = 0;
+        }
+
+        if (this.options.duplicateWindow)
+            this.openWindow(key, entry, write);
+
+        return true;
+    }
+
+    /**
+     * Closes every open window, writing the summaries of their repeats.
+     */
+    public flush(): void {
+        for (const key of [...this.windows.keys()])
+            this.closeWindow(key);
+    }
+
+    private openWindow(key: string, entry: LogSampleEntry, write: LogSampleWriter): void {
+        const timer = setTimeout(() => this.closeWindow(key), this.options.duplicateWindow!.totalMilliseconds);
+        timer.unref();
+
+        this.windows.set(key, { level: entry.level, message: entry.message, meta: entry.meta, count: 0, timer, write });
+    }
+
+    private closeWindow(key: string): void {
+        const window = this.windows.get(key);
+
+        if (!window)
+            return;
+
+        clearTimeout(window.timer);
+        this.windows.delete(key);
+
+        // The arguments of the first occurrence keep `%s`-style tokens of the summary resolved
+        if (window.count > 0)
+            window.write(window.level, `${window.message} (repeated ${window.count} ${window.count === 1 ? 'time' : 'times'})`, [...window.meta, { repeated: window.count }]);
+    }
+}
+
+function getSampleKey({ level, message, meta, fields }: LogSampleEntry): string {
+    const text = `${level}\u0000${format(message, ...meta)}\u0000${inspect(fields, { sorted: true, depth: 4, breakLength: Infinity })}`;
+    return createHash('sha1').update(text).digest('base64');
+}
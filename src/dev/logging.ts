@@ -1,5 +1,12 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import path from 'path';
+import { formatWithOptions } from 'util';
 import { createLogger, format, Logger, transports } from 'winston';
+import Transport from 'winston-transport';
+import { LogRegistry, LogSettingLevel } from './log-registry';
+import { LogSampler, LogSamplingOptions } from './log-sampling';
+import { RedactionOptions, Redactor } from './redaction';
+import { LogRotationOptions, RotatingFileTransport } from './rotating-file';
 
 
 const RESET = '\x1b[0m';  // Reset to default color
@@ -15,6 +22,15 @@ export enum LogLevel {
     ERROR = 'error'
 }
 
+/** How entries are rendered by a transport. */
+export enum LogFormat {
+    /** Tab-separated text with meta on separate lines; colored on the console. */
+    TEXT = 'text',
+
+    /** One JSON object per line, for log shippers. */
+    JSON = 'json'
+}
+
 const LogLevelMap: Record<LogLevel, number> = {
     [LogLevel.ERROR]: 1,
     [LogLevel.WARNING]: 2,
@@ -22,6 +38,14 @@ const LogLevelMap: Record<LogLevel, number> = {
     [LogLevel.DEBUG]: 4
 };
 
+/** The meta arguments of an entry as passed by the caller, before winston merges them into the entry. */
+const META = Symbol('meta');
+
+/** The contextual fields of an entry, see `ServiceLogger.child` and `ServiceLogger.runWithContext`. */
+const FIELDS = Symbol('fields');
+
+const logContext = new AsyncLocalStorage<LogFields>();
+
 const defaultFormat = format.combine(
     format.timestamp({ format: 'YYYY-MM-DD HH:mm:ss' }),
     format.errors({ stack: true }),
@@ -32,7 +56,7 @@ const fileFormat = format.combine(
     format.printf((info) => {
         const { timestamp, level, message, service } = info;
         const splat = (info[Symbol.for('splat')] || []) as unknown[];
-        let baseLog = `${timestamp}\t${level}\t${service}\t${message}`;
+        let baseLog = `${timestamp}\t${level}\t${service}\t${message}${formatFields(info[FIELDS])}`;
 
         if (splat && splat.length > 0)
             baseLog += '\n' + deserializeSplat(splat);
@@ -46,8 +70,8 @@ const consoleFormat = format.combine(
         const { timestamp, level, message, service } = info;
         const splat = (info[Symbol.for('splat')] || []) as unknown[];
         let baseLog = level === LogLevel.INFO || level === LogLevel.DEBUG
-            ? `${CYAN}${timestamp}${RESET}\t${level}\t${GREEN}${service}${RESET}\t${message}`
-            : `${timestamp}\t${level}\t${service}\t${message}`;
+            ? `${CYAN}${timestamp}${RESET}\t${level}\t${GREEN}${service}${RESET}\t${message}${formatFields(info[FIELDS])}`
+            : `${timestamp}\t${level}\t${service}\t${message}${formatFields(info[FIELDS])}`;
 
         if (splat && splat.length > 0)
             baseLog += '\n' + deserializeSplat(splat);
@@ -58,6 +82,144 @@ const consoleFormat = format.combine(
         return baseLog;
     }));
 
+/** Fields owned by the entry itself; meta fields never replace them. */
+const RESERVED_FIELDS = new Set(['timestamp', 'level', 'service', 'message']);
+
+const jsonFormat = format.combine(
+    format.timestamp(),
+    format.printf((info) => safeStringify(toLogEntry(info))));
+
+/**
+ * Builds the structured entry written by the JSON format and handed to sinks: the entry's own fields,
+ * then the contextual fields and meta objects merged as fields, errors serialized under `error` / `errors`
+ * and any other meta values under `meta`.
+ */
+function toLogEntry(info: Record<string | symbol, any>): LogEntry {
+    const meta = (info[META] ?? []) as unknown[];
+    const message = String(info.message);
+
+    // Arguments consumed by `%s`-style tokens belong to the message, not to the fields
+    const tokens = (message.match(/%[sdifjoOc]/g) ?? []).length;
+    const entry: LogEntry = {
+        timestamp: info.timestamp,
+        level: info.level,
+        service: info.service,
+        message: tokens > 0 ? formatWithOptions({ breakLength: Infinity }, message, ...meta.slice(0, tokens)) : message
+    };
+
+    for (const [key, value] of Object.entries(info)) {
+        if (!RESERVED_FIELDS.has(key))
+            entry[key] = value;
+    }
+
+    const errors: unknown[] = [];
+    const values: unknown[] = [];
+
+    for (const item of meta.slice(tokens)) {
+        if (item instanceof Error)
+            errors.push(serializeError(item));
+        else if (item !== null && typeof item === 'object' && !Array.isArray(item))
+            Object.entries(item).forEach(([key, value]) => RESERVED_FIELDS.has(key) || (entry[key] = value));
+        else
+            values.push(item);
+    }
+
+    if (errors.length === 1)
+        entry.error = errors[0];
+    else if (errors.length > 1)
+        entry.errors = errors;
+
+    if (values.length > 0)
+        entry.meta = values;
+
+    return entry;
+}
+
+function serializeError(error: Error, depth: number = 0): Record<string, unknown> {
+    const result: Record<string, unknown> = { name: error.name, message: error.message, stack: error.stack };
+
+    for (const [key, value] of Object.entries(error)) {
+        if (!(key in result))
+            result[key] = value;
+    }
+
+    if (error.cause !== undefined)
+        result.cause = error.cause instanceof Error && depth < 5 ? serializeError(error.cause, depth + 1) : error.cause;
+
+    return result;
+}
+
+/**
+ * Serializes a value as JSON, tolerating circular references, bigints and errors.
+ * @param {unknown} value - The value to serialize.
+ * @returns {string} The JSON text.
+ */
+export function safeStringify(value: unknown): string {
+    const seen = new WeakSet<object>();
+
+    return JSON.stringify(value, (_, item) => {
+        if (typeof item === 'bigint')
+            return item.toString();
+
+        if (item instanceof Error)
+            return serializeError(item);
+
+        if (item !== null && typeof item === 'object') {
+            if (seen.has(item))
+                return '[Circular]';
+
+            seen.add(item);
+        }
+
+        return item;
+    });
+}
+
+/**
+ * Hands entries to a `LogSink`. Failed writes are reported through the transport's `warn` event.
+ */
+class SinkTransport extends Transport {
+    constructor(private readonly sink: LogSink, level?: LogLevel) {
+        super({ level, format: format.timestamp() });
+    }
+
+    override log(info: any, next: () => void): void {
+        try {
+            Promise.resolve(this.sink.write(toLogEntry(info)))
+                .then(() => this.emit('logged', info), (error) => this.emit('warn', error));
+        } catch (error) {
+            this.emit('warn', error);
+        }
+
+        next();
+    }
+}
+
+function createFileTransport(filename: string, logFormat: LogFormat, level?: LogLevel, rotation?: LogRotationOptions) {
+    const fileFormat = getFormat(logFormat, false);
+
+    if (rotation)
+        return new RotatingFileTransport({ filename, level, format: fileFormat, rotation });
+
+    return new transports.File({ filename, level, format: fileFormat });
+}
+
+function getFormat(logFormat: LogFormat, console: boolean) {
+    if (logFormat === LogFormat.JSON)
+        return jsonFormat;
+
+    return console ? consoleFormat : fileFormat;
+}
+
+function formatFields(fields: unknown): string {
+    const entries = Object.entries((fields ?? {}) as LogFields);
+
+    if (entries.length === 0)
+        return '';
+
+    return '\t' + entries.map(([key, value]) => `${key}=${typeof value === 'object' && value !== null ? safeStringify(value) : String(value)}`).join(' ');
+}
+
 function deserializeSplat(splat: unknown[]): string {
     return splat
         .map((data) => {
@@ -96,31 +258,28 @@ function parseFilter(input?: string): Map<string, boolean> {
 }
 
 function createWinstonLogger(options: ServiceInfo): Logger {
-    const globalLogLevel = options.globalLogLevel;
-    const targetLogLevel = options.logLevel;
-
-    const logLevel = LogLevelMap[globalLogLevel] < LogLevelMap[targetLogLevel] ? globalLogLevel : targetLogLevel
-
     const projectDirectory = options.logPath || process.cwd();
     const logDirectory = path.join(projectDirectory, 'logs');
 
+    // Levels are checked by `ServiceLogger`, so they can change at runtime through the `LogRegistry`
     const result = createLogger({
-        level: logLevel,
-
-        format: fileFormat,
+        level: LogLevel.DEBUG,
 
         defaultMeta: { service: 'user-service' },
 
-        transports: [
-            new transports.File({ filename: path.join(logDirectory, 'error.log'), level: LogLevel.ERROR }),
-            new transports.File({ filename: path.join(logDirectory, 'combined.log') }),
-        ],
+        transports: options.defaultFiles ? [
+            createFileTransport(path.join(logDirectory, 'error.log'), options.format, LogLevel.ERROR, options.rotation),
+            createFileTransport(path.join(logDirectory, 'combined.log'), options.format, undefined, options.rotation),
+        ] : [],
     });
 
+    for (const sink of options.sinks)
+        result.add(new SinkTransport(sink));
+
     if (options.verbose) {
         result.add(
             new transports.Console({
-                format: consoleFormat
+                format: getFormat(options.consoleFormat, true)
             })
         );
     }
@@ -134,14 +293,16 @@ export class ServiceLogger {
 
     private readonly options: ServiceInfo;
 
-    private get isObservable(): boolean {
-        const item = this.options.globalFilter.get(this.options.serviceName);
+    private readonly sinks: LogSink[];
 
-        if (item === undefined)
-            return true;
+    private readonly redactor?: Redactor;
+
+    private readonly sampler?: LogSampler;
+
+    private fields: LogFields = {};
+
+    private isChild: boolean = false;
 
-        return item;
-    }
 
     /**
      * Creates a new instance of the ServiceLogger class with specified options.
@@ -149,89 +310,217 @@ export class ServiceLogger {
      * @param {ServiceOptions} [options={}] - Configuration options for the logger.
      * @param {string}  options.serviceName - The name of the service (default is "nameless-service").
      * @param {LogLevel} options.logLevel - The default log level (default is LogLevel.DEBUG).
-     * @param {boolean} options.verbose - Indicates whether verbose logging is enabled (default is true).
+     * @param {boolean} options.verbose - Indicates whether entries are also written to the console (default is true).
      * @param {string} options.logPath - The directory where logs will be stored (default is the current working directory).
      * @param {LogLevel} options.globalLogLevel - The global log level for the service (default is LogLevel.DEBUG).
      * @param {string} options.globalFilter - A filter string for global logging configuration.
+     * @param {LogFormat} options.format - The format of the file transports (default is LogFormat.TEXT).
+     * @param {LogFormat} options.consoleFormat - The format of the console transport (default is LogFormat.TEXT).
+     * @param {boolean} options.asyncContext - Whether entries carry the fields of `ServiceLogger.runWithContext` (default is false).
+     * @param {LogRotationOptions} options.rotation - Rotation, retention and compression of every log file (default is no rotation).
+     * @param {boolean} options.defaultFiles - Whether `logs/error.log` and `logs/combined.log` are written (default is true).
+     * @param {LogSink[]} options.sinks - Additional destinations every entry is handed to.
+     * @param {LogSamplingOptions} options.sampling - Rate limiting, collapsing of repeats and sampling of debug entries (default is every entry written).
+     * @param {Partial<RedactionOptions> | false} options.redaction - How sensitive data is masked in messages, meta and fields, or false to log them as they are (default masks the values of sensitive keys only; patterns such as `RedactionPatterns` are opt-in).
      */
     constructor(options: ServiceOptions = {}) {
         this.options = {
             serviceName: options.serviceName || "nameless-service",
             logLevel: options.logLevel || LogLevel.DEBUG,
-            verbose: options.verbose || true,
+            verbose: options.verbose ?? true,
             logPath: options.logPath || process.cwd(),
             globalLogLevel: typeof options.globalLogLevel === 'string' ? options.globalLogLevel as LogLevel : options.globalLogLevel || LogLevel.DEBUG,
-            globalFilter: parseFilter(options.globalFilter)
+            globalFilter: parseFilter(options.globalFilter),
+            format: options.format || LogFormat.TEXT,
+            consoleFormat: options.consoleFormat || LogFormat.TEXT,
+            asyncContext: options.asyncContext || false,
+            rotation: options.rotation,
+            defaultFiles: options.defaultFiles ?? true,
+            sinks: options.sinks ?? [],
+            redaction: options.redaction ?? {},
+            sampling: options.sampling
         }
 
+        this.sinks = [...this.options.sinks];
+        this.redactor = this.options.redaction ? new Redactor(this.options.redaction) : undefined;
+        this.sampler = this.options.sampling ? new LogSampler(this.options.sampling) : undefined;
         this.logger = createWinstonLogger(this.options)
         this.logger.defaultMeta = { service: this.options.serviceName };
+
+        LogRegistry.register(this);
+    }
+
+    /** Gets the name of the service the logger writes for. */
+    get serviceName(): string {
+        return this.options.serviceName;
     }
 
     /**
-     * Logs an informational message if the service is observable.
+     * Gets the level in effect: the level set through the `LogRegistry`, or else the lower of `logLevel` and `globalLogLevel`.
+     * It is `off` while the `LogRegistry` switches the service off.
+     */
+    get level(): LogSettingLevel {
+        return LogRegistry.getLevel(this.serviceName) ?? this.configuredLevel;
+    }
+
+    /**
+     * Gets whether the service writes debug and info entries: decided by the filter of the `LogRegistry`, or else by `globalFilter`.
+     * Warnings and errors are written regardless of the filter, but not beyond the level in effect.
+     */
+    get isObservable(): boolean {
+        return LogRegistry.isObservable(this.serviceName) ?? this.options.globalFilter.get(this.serviceName) ?? true;
+    }
+
+    /**
+     * Gets the fields of the current async context, see `runWithContext`.
+     */
+    static get context(): LogFields {
+        return { ...logContext.getStore() };
+    }
+
+    /**
+     * Runs a callback in an async context whose fields are stamped on every entry of loggers created with `asyncContext`,
+     * including entries written by `RestRequest`, `AdaptivePoller` and others from within the callback. Contexts can be nested.
+     * @param {LogFields} fields - The fields, merged over the fields of the enclosing context.
+     * @param {() => T} callback - The callback to run.
+     * @returns {T} The result of the callback.
+     * @template T - The type of the result.
+     */
+    static runWithContext<T>(fields: LogFields, callback: () => T): T {
+        return logContext.run({ ...logContext.getStore(), ...fields }, callback);
+    }
+
+    /**
+     * Creates a logger that stamps the given fields on every entry. It shares the transports and options of this logger
+     * and can be nested, with inner fields replacing outer ones.
+     * @param {LogFields} fields - The fields to stamp.
+     * @returns {ServiceLogger} The child logger.
+     */
+    public child(fields: LogFields): ServiceLogger {
+        const child: ServiceLogger = Object.create(this);
+        child.fields = { ...this.fields, ...fields };
+        child.isChild = true;
+
+        return child;
+    }
+
+    /**
+     * Logs an informational message if the service is observable and its level includes it.
      * @param {string} message - The message to log.
      * @param {...unknown[]} meta - Additional metadata to log alongside the message.
      */
     public info(message: string, ...meta: unknown[]): void {
-        if (!this.isObservable)
-            return;
-
-        this.logger.info(message, ...meta);
-    };
+        this.write(LogLevel.INFO, message, meta);
+    }
 
     /**
-     * Logs a warning message.
+     * Logs a warning message if the level in effect includes it, whether or not the service is observable.
      * @param {string} message - The message to log.
      * @param {...unknown[]} meta - Additional metadata to log alongside the message.
      */
     public warning(message: string, ...meta: unknown[]): void {
-        this.logger.warn(message, ...meta);
+        this.write(LogLevel.WARNING, message, meta);
     }
 
     /**
-     * Logs a debug message if the service is observable.
+     * Logs a debug message if the service is observable and its level includes it.
      * @param {string} message - The message to log.
      * @param {...unknown[]} meta - Additional metadata to log alongside the message.
      */
     public debug(message: string, ...meta: unknown[]): void {
-        if (!this.isObservable)
-            return;
-
-        this.logger.debug(message, ...meta);
+        this.write(LogLevel.DEBUG, message, meta);
     }
 
     /**
-     * Logs an error message and returns an Error object.
+     * Logs an error message unless the service is switched off, whether or not it is observable,
+     * and returns an Error object.
      * @param {string} message - The error message.
      * @param {...unknown[]} meta - Additional metadata to log alongside the message.
      * @returns {Error} The created error.
      */
     public error(message: string, ...meta: unknown[]): Error {
-        this.logger.error(message, ...meta);
+        this.write(LogLevel.ERROR, message, meta);
         return new Error(message);
     }
 
     /**
-     * Adds transport to the logger to write logs to a specified file.
-     * @param {string} relativePath - The relative path where the log file will be stored.
+     * Adds transport to the logger to write logs to a specified file or sink.
+     * @param {string | LogSink} target - The relative path where the log file will be stored, or a sink receiving the entries.
      * @param {LogLevel} [logLevel] - The log level for this transport. If not provided, all logs will be written.
+     * @param {LogFormat} [logFormat] - The format of a file transport. If not provided, the format of the file transports is used.
      */
-    public addTransport(relativePath: string, logLevel?: LogLevel): void {
-        if (!this.options.verbose)
+    public addTransport(target: string | LogSink, logLevel?: LogLevel, logFormat?: LogFormat): void {
+        if (typeof target !== 'string') {
+            this.sinks.push(target);
+            this.logger.add(new SinkTransport(target, logLevel));
             return;
+        }
 
-        let transport;
+        const fullLogPath = path.join(this.options.logPath, target);
 
-        const fullLogPath = path.join(this.options.logPath, relativePath);
+        this.logger.add(createFileTransport(fullLogPath, logFormat ?? this.options.format, logLevel, this.options.rotation));
+    }
 
-        if (!logLevel) {
-            transport = new transports.File({ filename: path.join(fullLogPath) });
-        } else {
-            transport = new transports.File({ filename: path.join(fullLogPath), level: logLevel });
+    /**
+     * Writes the summaries of pending repeats, flushes and closes every sink, then closes the transports. Entries logged afterwards are dropped.
+     * Does nothing on a child logger, whose transports belong to the logger it was created from.
+     * @returns {Promise<void>} A promise that resolves when buffered entries have been delivered or given up on.
+     */
+    public async close(): Promise<void> {
+        if (this.isChild)
+            return;
+
+        this.sampler?.flush();
+
+        for (const sink of this.sinks) {
+            await sink.flush?.();
+            await sink.close?.();
         }
 
-        this.logger.add(transport);
+        this.logger.close();
+    }
+
+    private get configuredLevel(): LogLevel {
+        const { logLevel, globalLogLevel } = this.options;
+        return LogLevelMap[globalLogLevel] < LogLevelMap[logLevel] ? globalLogLevel : logLevel;
+    }
+
+    private write(level: LogLevel, message: string, meta: unknown[]): void {
+        if (!this.isEnabled(level))
+            return;
+
+        if (this.sampler && !this.sampler.accept({ level, message, meta, fields: this.contextFields }, (...summary) => this.emit(...summary)))
+            return;
+
+        this.emit(level, message, meta);
+    }
+
+    private isEnabled(level: LogLevel): boolean {
+        const current = this.level;
+
+        if (current === 'off' || LogLevelMap[level] > LogLevelMap[current])
+            return false;
+
+        // Like `globalFilter` always did, filters leave warnings and errors through
+        return LogLevelMap[level] <= LogLevelMap[LogLevel.WARNING] || this.isObservable;
+    }
+
+    private get contextFields(): LogFields {
+        return this.options.asyncContext ? { ...logContext.getStore(), ...this.fields } : this.fields;
+    }
+
+    private emit(level: LogLevel, message: string, meta: unknown[]): void {
+        let fields = this.contextFields;
+
+        // Redacting ahead of winston covers every format and sink, and leaves the caller's objects untouched
+        if (this.redactor) {
+            message = this.redactor.redactText(message);
+            meta = meta.map((item) => this.redactor!.redact(item));
+            fields = this.redactor.redact(fields) as LogFields;
+        }
+
+        // Winston merges and consumes meta while formatting, so structured formats read an untouched copy
+        this.logger.log({ ...fields, level, message, [Symbol.for('splat')]: [...meta], [META]: meta, [FIELDS]: fields });
     }
 }
 
@@ -242,6 +531,14 @@ type ServiceInfo = {
     logPath: string;
     globalLogLevel: LogLevel;
     globalFilter: Map<string, boolean>;
+    format: LogFormat;
+    consoleFormat: LogFormat;
+    asyncContext: boolean;
+    rotation?: LogRotationOptions;
+    defaultFiles: boolean;
+    sinks: LogSink[];
+    redaction: Partial<RedactionOptions> | false;
+    sampling?: LogSamplingOptions;
 }
 
 export type ServiceOptions = {
@@ -250,5 +547,45 @@ export type ServiceOptions = {
     verbose?: boolean;
     logPath?: string;
     globalLogLevel?: LogLevel | string;
-    globalFilter?: string
+    globalFilter?: string;
+    format?: LogFormat;
+    consoleFormat?: LogFormat;
+    asyncContext?: boolean;
+    rotation?: LogRotationOptions;
+    defaultFiles?: boolean;
+    sinks?: LogSink[];
+    redaction?: Partial<RedactionOptions> | false;
+    sampling?: LogSamplingOptions;
+}
+
+/** Contextual fields stamped on log entries. */
+export type LogFields = Record<string, unknown>;
+
+/** A structured log entry, as written by the JSON format and handed to sinks. */
+export type LogEntry = {
+    /** ISO 8601 time of the entry. */
+    timestamp: string,
+    level: LogLevel,
+    service: string,
+    message: string,
+
+    /** Contextual fields, merged meta objects, `error` / `errors` and remaining `meta` values. */
+    [field: string]: unknown
+}
+
+/**
+ * A destination of log entries, added through `ServiceOptions.sinks` or `ServiceLogger.addTransport`.
+ */
+export interface LogSink {
+    /**
+     * Receives an entry. A rejected promise is reported as a `warn` event and does not affect the caller.
+     * @param {LogEntry} entry - The entry.
+     */
+    write(entry: LogEntry): void | Promise<void>;
+
+    /** Delivers buffered entries. */
+    flush?(): Promise<void>;
+
+    /** Releases the resources of the sink. */
+    close?(): Promise<void>;
 }
@@ -0,0 +1,552 @@
+﻿import { TimeSpan } from 'dash-core';
+
+
+export enum MetricType {
+    COUNTER = 'counter',
+    GAUGE = 'gauge',
+    HISTOGRAM = 'histogram',
+    SUMMARY = 'summary'
+}
+
+/** The label values of a series, by label name. */
+export type MetricLabels = Record<string, string | number>;
+
+/** A single line of the exposition: a sample of a series. */
+export type MetricSample = {
+    /** The sample name, e.g. `_bucket`, `_sum` or `_count` appended to the metric name. */
+    name: string,
+    labels: Record<string, string>,
+    value: number
+}
+
+const NAME_PATTERN = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * The common part of every metric: its name, help text and labelled series.
+ */
+export abstract class Metric<TSeries> {
+    private readonly series = new Map<string, { labels: Record<string, string>, value: TSeries }>();
+
+    /**
+     * @param {string} name - The metric name, e.g. `http_requests_total`.
+     * @param {string} help - What the metric measures.
+     * @param {string[]} labelNames - The names of the labels that distinguish the series.
+     */
+    constructor(public readonly name: string, public readonly help: string, public readonly labelNames: readonly string[]) {
+        if (!NAME_PATTERN.test(name)) {
+            throw new Error(`Invalid metric name ${JSON.stringify(name)}`);
+        }
+
+        for (const label of labelNames) {
+            if (!LABEL_PATTERN.test(label) || label.startsWith('__') || this.reservedLabels.includes(label)) {
+                throw new Error(`Invalid label name ${JSON.stringify(label)} of metric ${name}`);
+            }
+        }
+    }
+
+    /** Gets the type of the metric. */
+    abstract get type(): MetricType;
+
+    /**
+     * Gets the samples of every series, in the order the series were created.
+     * @returns {MetricSample[]} The samples.
+     */
+    public collect(): MetricSample[] {
+        // A metric without labels is exposed from the start, so a counter reads 0 before its first increment
+        if (this.labelNames.length === 0)
+            this.getSeries({});
+
+        return [...this.series.values()].flatMap(({ labels, value }) => this.toSamples(labels, value));
+    }
+
+    /**
+     * Removes every series.
+     */
+    public reset(): void {
+        this.series.clear();
+    }
+
+    /** Label names the metric type uses itself, e.g. `le` of histograms. */
+    protected get reservedLabels(): string[] {
+        return [];
+    }
+
+    protected abstract createSeries(): TSeries;
+
+    protected abstract toSamples(labels: Record<string, string>, series: TSeries): MetricSample[];
+
+    protected getSeries(labels: MetricLabels): TSeries {
+        const normalized: Record<string, string> = {};
+
+        for (const [label, value] of Object.entries(labels)) {
+            if (!this.labelNames.includes(label)) {
+                throw new Error(`Unknown label ${JSON.stringify(label)} of metric ${this.name}`);
+            }
+        }
+
+        for (const label of this.labelNames)
+            normalized[label] = String(labels[label] ?? '');
+
+        const key = JSON.stringify(this.labelNames.map((label) => normalized[label]));
+        let item = this.series.get(key);
+
+        if (!item) {
+            item = { labels: normalized, value: this.createSeries() };
+            this.series.set(key, item);
+        }
+
+        return item.value;
+    }
+}
+
+/**
+ * A value that only goes up, e.g. the number of requests sent.
+ */
+export class Counter extends Metric<{ value: number }> {
+    get type(): MetricType {
+        return MetricType.COUNTER;
+    }
+
+    /**
+     * Increments the series of the labels.
+     * @param {MetricLabels} [labels] - The label values of the series.
+     * @param {number} [value=1] - The increment; must not be negative.
+     */
+    public inc(labels: MetricLabels = {}, value: number = 1): void {
+        if (value < 0) {
+            throw new Error('A counter can only be incremented');
+        }
+
+        this.getSeries(labels).value += value;
+    }
+
+    /**
+     * Gets the value of the series of the labels.
+     * @param {MetricLabels} [labels] - The label values of the series.
+     * @returns {number} The value.
+     */
+    public get(labels: MetricLabels = {}): number {
+        return this.getSeries(labels).value;
+    }
+
+    protected createSeries(): { value: number } {
+        return { value: 0 };
+    }
+
+    protected toSamples(labels: Record<string, string>, series: { value: number }): MetricSample[] {
+        return [{ name: this.name, labels, value: series.value }];
+    }
+}
+
+/**
+ * A value that goes up and down, e.g. the current delay of a poller.
+ */
+export class Gauge extends Metric<{ value: number }> {
+    get type(): MetricType {
+        return MetricType.GAUGE;
+    }
+
+    /**
+     * Sets the series of the labels.
+     * @param {number} value - The value.
+     * @param {MetricLabels} [labels] - The label values of the series.
+     */
+    public set(value: number, labels: MetricLabels = {}): void {
+        this.getSeries(labels).value = value;
+    }
+
+    /**
+     * Increments the series of the labels.
+     * @param {MetricLabels} [labels] - The label values of the series.
+     * @param {number} [value=1] - The increment.
+     */
+    public inc(labels: MetricLabels = {}, value: number = 1): void {
+        this.getSeries(labels).value += value;
+    }
+
+    /**
+     * Decrements the series of the labels.
+     * @param {MetricLabels} [labels] - The label values of the series.
+     * @param {number} [value=1] - The decrement.
+     */
+    public dec(labels: MetricLabels = {}, value: number = 1): void {
+        this.getSeries(labels).value -= value;
+    }
+
+    /**
+     * Gets the value of the series of the labels.
+     * @param {MetricLabels} [labels] - The label values of the series.
+     * @returns {number} The value.
+     */
+    public get(labels: MetricLabels = {}): number {
+        return this.getSeries(labels).value;
+    }
+
+    protected createSeries(): { value: number } {
+        return { value: 0 };
+    }
+
+    protected toSamples(labels: Record<string, string>, series: { value: number }): MetricSample[] {
+        return [{ name: this.name, labels, value: series.value }];
+    }
+}
+
+type histogramSeries = {
+    buckets: number[],
+    sum: number,
+    count: number
+}
+
+/**
+ * Counts observations in cumulative buckets, e.g. request durations in seconds.
+ */
+export class Histogram extends Metric<histogramSeries> {
+    /** The upper bounds of the buckets, ascending; `+Inf` is implied. */
+    public readonly buckets: readonly number[];
+
+    /**
+     * @param {string} name - The metric name, e.g. `http_request_duration_seconds`.
+     * @param {string} help - What the metric measures.
+     * @param {string[]} labelNames - The names of the labels that distinguish the series.
+     * @param {number[]} buckets - The upper bounds of the buckets.
+     */
+    constructor(name: string, help: string, labelNames: readonly string[], buckets: readonly number[]) {
+        super(name, help, labelNames);
+
+        this.buckets = [...new Set(buckets)].filter((bound) => bound !== Infinity).sort((a, b) => a - b);
+    }
+
+    get type(): MetricType {
+        return MetricType.HISTOGRAM;
+    }
+
+    /**
+     * Records an observation in the series of the labels.
+     * @param {number} value - The observed value.
+     * @param {MetricLabels} [labels] - The label values of the series.
+     */
+    public observe(value: number, labels: MetricLabels = {}): void {
+        const series = this.getSeries(labels);
+        const index = this.buckets.findIndex((bound) => value <= bound);
+
+        if (index >= 0)
+            series.buckets[index]++;
+
+        series.sum += value;
+        series.count++;
+    }
+
+    /**
+     * Starts measuring a duration in seconds.
+     * @param {MetricLabels} [labels] - The label values of the series, merged with those passed to the returned function.
+     * @returns {(labels?: MetricLabels) => number} Records the seconds elapsed since the call and returns them.
+     */
+    public startTimer(labels: MetricLabels = {}): (labels?: MetricLabels) => number {
+        const startedAt = process.hrtime.bigint();
+
+        return (endLabels?: MetricLabels) => {
+            const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+            this.observe(seconds, { ...labels, ...endLabels });
+
+            return seconds;
+        };
+    }
+
+    protected override get reservedLabels(): string[] {
+        return ['le'];
+    }
+
+    protected createSeries(): histogramSeries {
+        return { buckets: this.buckets.map(() => 0), sum: 0, count: 0 };
+    }
+
+    protected toSamples(labels: Record<string, string>, series: histogramSeries): MetricSample[] {
+        let cumulative = 0;
+
+        const buckets = this.buckets.map((bound, index) => {
+            cumulative += series.buckets[index];
+            return { name: `${this.name}_bucket`, labels: { ...labels, le: formatValue(bound) }, value: cumulative };
+        });
+
+        return [
+            ...buckets,
+            { name: `${this.name}_bucket`, labels: { ...labels, le: '+Inf' }, value: series.count },
+            { name: `${this.name}_sum`, labels, value: series.sum },
+            { name: `${this.name}_count`, labels, value: series.count }
+        ];
+    }
+}
+
+type summarySeries = {
+    observations: { value: number, time: number }[],
+    sum: number,
+    count: number
+}
+
+/**
+ * Reports quantiles of recent observations, e.g. request durations in seconds.
+ * Quantiles cover the observations of the last `maxAge`; sum and count cover every observation.
+ */
+export class Summary extends Metric<summarySeries> {
+    /**
+     * @param {string} name - The metric name, e.g. `http_request_duration_seconds`.
+     * @param {string} help - What the metric measures.
+     * @param {string[]} labelNames - The names of the labels that distinguish the series.
+     * @param {number[]} quantiles - The reported quantiles, between 0 and 1.
+     * @param {TimeSpan} maxAge - How long observations count towards the quantiles.
+     * @param {number} maxSamples - The maximum number of observations kept per series.
+     */
+    constructor(
+        name: string,
+        help: string,
+        labelNames: readonly string[],
+        public readonly quantiles: readonly number[],
+        public readonly maxAge: TimeSpan,
+        public readonly maxSamples: number) {
+        super(name, help, labelNames);
+
+        if (quantiles.some((quantile) => !(quantile >= 0 && quantile <= 1))) {
+            throw new Error(`Quantiles of metric ${name} must be between 0 and 1`);
+        }
+    }
+
+    get type(): MetricType {
+        return MetricType.SUMMARY;
+    }
+
+    /**
+     * Records an observation in the series of the labels.
+     * @param {number} value - The observed value.
+     * @param {MetricLabels} [labels] - The label values of the series.
+     */
+    public observe(value: number, labels: MetricLabels = {}): void {
+        const series = this.getSeries(labels);
+
+        series.observations.push({ value, time: Date.now() });
+
+        if (series.observations.length > this.maxSamples)
+            series.observations.shift();
+
+        series.sum += value;
+        series.count++;
+    }
+
+    protected override get reservedLabels(): string[] {
+        return ['quantile'];
+    }
+
+    protected createSeries(): summarySeries {
+        return { observations: [], sum: 0, count: 0 };
+    }
+
+    protected toSamples(labels: Record<string, string>, series: summarySeries): MetricSample[] {
+        const expired = Date.now() - this.maxAge.totalMilliseconds;
+
+        while (series.observations.length > 0 && series.observations[0].time < expired)
+            series.observations.shift();
+
+        const values = series.observations.map((item) => item.value).sort((a, b) => a - b);
+
+        // Nearest rank; NaN while there are no recent observations
+        const quantiles = this.quantiles.map((quantile) => ({
+            name: this.name,
+            labels: { ...labels, quantile: formatValue(quantile) },
+            value: values.length > 0 ? values[Math.max(0, Math.ceil(quantile * values.length) - 1)] : NaN
+        }));
+
+        return [
+            ...quantiles,
+            { name: `${this.name}_sum`, labels, value: series.sum },
+            { name: `${this.name}_count`, labels, value: series.count }
+        ];
+    }
+}
+
+type metricsRegistryOptions = {
+    /** Prepended to the name of every metric, e.g. `myapp_`. */
+    prefix: string,
+}
+
+type histogramOptions = {
+    /** The upper bounds of the buckets. */
+    buckets: number[],
+
+    /** The names of the labels that distinguish the series. */
+    labelNames: string[],
+}
+
+type summaryOptions = {
+    /** The reported quantiles, between 0 and 1. */
+    quantiles: number[],
+
+    /** How long observations count towards the quantiles. */
+    maxAge: TimeSpan,
+
+    /** The maximum number of observations kept per series. */
+    maxSamples: number,
+
+    /** The names of the labels that distinguish the series. */
+    labelNames: string[],
+}
+
+/**
+ * Creates and holds metrics and renders them in the Prometheus text exposition format.
+ * Asking for a metric that exists returns it, so instrumented classes sharing a registry share their metrics.
+ */
+export class MetricsRegistry {
+    private readonly options: metricsRegistryOptions;
+    private readonly metrics = new Map<string, Metric<unknown>>();
+
+    private readonly defaultOptions: metricsRegistryOptions = {
+        prefix: ''
+    }
+
+    /** The default buckets of histograms, suited to durations in seconds. */
+    static readonly DEFAULT_BUCKETS: readonly number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+    /**
+     * Creates an instance of the MetricsRegistry class.
+     * @param {Partial<metricsRegistryOptions>} [options] - Configuration options for the registry.
+     * @param {string} [options.prefix] - Prepended to the name of every metric (default is no prefix).
+     */
+    constructor(options?: Partial<metricsRegistryOptions>) {
+        this.options = { ...this.defaultOptions, ...options };
+    }
+
+    /**
+     * Gets or creates a counter.
+     * @param {string} name - The metric name without prefix, e.g. `requests_total`.
+     * @param {string} help - What the metric measures.
+     * @param {string[]} [labelNames] - The names of the labels that distinguish the series.
+     * @returns {Counter} The counter.
+     * @throws {Error} If a metric of another type or with other labels exists under the name.
+     */
+    public counter(name: string, help: string, labelNames: string[] = []): Counter {
+        return this.getOrCreate(name, Counter, labelNames, () => new Counter(this.options.prefix + name, help, labelNames));
+    }
+
+    /**
+     * Gets or creates a gauge.
+     * @param {string} name - The metric name without prefix, e.g. `queue_length`.
+     * @param {string} help - What the metric measures.
+     * @param {string[]} [labelNames] - The names of the labels that distinguish the series.
+     * @returns {Gauge} The gauge.
+     * @throws {Error} If a metric of another type or with other labels exists under the name.
+     */
+    public gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+        return this.getOrCreate(name, Gauge, labelNames, () => new Gauge(this.options.prefix + name, help, labelNames));
+    }
+
+    /**
+     * Gets or creates a histogram.
+     * @param {string} name - The metric name without prefix, e.g. `request_duration_seconds`.
+     * @param {string} help - What the metric measures.
+     * @param {Partial<histogramOptions>} [options] - Options of the histogram.
+     * @param {number[]} [options.buckets] - The upper bounds of the buckets (default is `MetricsRegistry.DEFAULT_BUCKETS`).
+     * @param {string[]} [options.labelNames] - The names of the labels that distinguish the series.
+     * @returns {Histogram} The histogram.
+     * @throws {Error} If a metric of another type or with other labels exists under the name.
+     */
+    public histogram(name: string, help: string, options?: Partial<histogramOptions>): Histogram {
+        const labelNames = options?.labelNames ?? [];
+        const buckets = options?.buckets ?? [...MetricsRegistry.DEFAULT_BUCKETS];
+
+        return this.getOrCreate(name, Histogram, labelNames, () => new Histogram(this.options.prefix + name, help, labelNames, buckets));
+    }
+
+    /**
+     * Gets or creates a summary.
+     * @param {string} name - The metric name without prefix, e.g. `request_duration_seconds`.
+     * @param {string} help - What the metric measures.
+     * @param {Partial<summaryOptions>} [options] - Options of the summary.
+     * @param {number[]} [options.quantiles] - The reported quantiles (default is 0.5, 0.9 and 0.99).
+     * @param {TimeSpan} [options.maxAge] - How long observations count towards the quantiles (default is 10 minutes).
+     * @param {number} [options.maxSamples] - The maximum number of observations kept per series (default is 1000).
+     * @param {string[]} [options.labelNames] - The names of the labels that distinguish the series.
+     * @returns {Summary} The summary.
+     * @throws {Error} If a metric of another type or with other labels exists under the name.
+     */
+    public summary(name: string, help: string, options?: Partial<summaryOptions>): Summary {
+        const labelNames = options?.labelNames ?? [];
+
+        return this.getOrCreate(name, Summary, labelNames, () => new Summary(
+            this.options.prefix + name,
+            help,
+            labelNames,
+            options?.quantiles ?? [0.5, 0.9, 0.99],
+            options?.maxAge ?? TimeSpan.fromMinutes(10),
+            options?.maxSamples ?? 1000));
+    }
+
+    /**
+     * Gets a metric.
+     * @param {string} name - The metric name without prefix.
+     * @returns {Metric<unknown> | undefined} The metric, or undefined if it does not exist.
+     */
+    public get(name: string): Metric<unknown> | undefined {
+        return this.metrics.get(this.options.prefix + name);
+    }
+
+    /**
+     * Removes every metric.
+     */
+    public clear(): void {
+        this.metrics.clear();
+    }
+
+    /**
+     * Renders every metric in the Prometheus text exposition format, version 0.0.4.
+     * @returns {string} The exposition, e.g. to be served from a `/metrics` endpoint with content type `text/plain; version=0.0.4`.
+     */
+    public render(): string {
+        const lines: string[] = [];
+
+        for (const metric of this.metrics.values()) {
+            lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+            lines.push(`# TYPE ${metric.name} ${metric.type}`);
+
+            for (const sample of metric.collect())
+                lines.push(`${sample.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+        }
+
+        return lines.length > 0 ? lines.join('\n') + '\n' : '';
+    }
+
+    private getOrCreate<TMetric extends Metric<unknown>>(name: string, type: abstract new (...args: never[]) => TMetric, labelNames: string[], create: () => TMetric): TMetric {
+        const existing = this.metrics.get(this.options.prefix + name);
+
+        if (!existing) {
+            const metric = create();
+            this.metrics.set(metric.name, metric);
+
+            return metric;
+        }
+
+        if (!(existing instanceof type) || existing.labelNames.join() !== labelNames.join()) {
+            throw new Error(`Metric ${existing.name} already exists as ${existing.type} with labels [${existing.labelNames.join(', ')}]`);
+        }
+
+        return existing;
+    }
+}
+
+function formatLabels(labels: Record<string, string>): string {
+    const entries = Object.entries(labels);
+
+    if (entries.length === 0)
+        return '';
+
+    const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+    return `{${entries.map(([label, value]) => `${label}="${escape(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity)
+        return '+Inf';
+
+    if (value === -Infinity)
+        return '-Inf';
+
+    return String(value);
+}
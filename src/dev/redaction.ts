@@ -0,0 +1,232 @@
+﻿/** A pattern whose matches are masked in strings, optionally confirmed by a check of the matched text. */
+export type RedactionPattern = {
+    /** The pattern; it needs the global flag to mask every match. */
+    regex: RegExp,
+
+    /** Confirms a match, e.g. by its checksum; matches it rejects are kept. */
+    validate?: (match: string) => boolean
+}
+
+/** Built-in patterns of sensitive values found in strings. None of them is applied unless listed in `RedactionOptions.patterns`. */
+export const RedactionPatterns = {
+    /** `Bearer` and `Basic` credentials, e.g. in a logged `Authorization` header. */
+    AUTHORIZATION: { regex: /\b(?:Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi } as RedactionPattern,
+
+    /** JSON web tokens. */
+    JWT: { regex: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g } as RedactionPattern,
+
+    /**
+     * Payment card numbers of 13 to 19 digits that pass the Luhn check. Ungrouped digits are only masked when they start
+     * with a Visa, Mastercard, American Express or Discover prefix, so timestamps and identifiers are kept.
+     */
+    CARD_NUMBER: { regex: /\b\d(?:[ -]?\d){12,18}\b/g, validate: isCardNumber } as RedactionPattern,
+
+    /** Email addresses. */
+    EMAIL: { regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g } as RedactionPattern,
+};
+
+/** What is masked in log entries and how large their meta may get. */
+export type RedactionOptions = {
+    /**
+     * Keys whose values are masked wherever they appear, at any depth. Strings match case-insensitively and regardless of
+     * `-` and `_`, also as the end of a longer key, so `apiKey` matches `x-api-key`; regular expressions are tested as they are.
+     */
+    keys: (string | RegExp)[],
+
+    /** Patterns masked in every string, including the message. */
+    patterns: (RegExp | RedactionPattern)[],
+
+    /** The replacement of masked values. */
+    mask: string,
+
+    /** The depth below which objects are replaced by `[Object]` or `[Array]`. */
+    maxDepth: number,
+
+    /** The number of keys or items kept per object or array. */
+    maxItems: number,
+
+    /** The number of characters kept per string. */
+    maxStringLength: number,
+}
+
+/**
+ * Masks sensitive values by key and by pattern and bounds the size of logged values. Values are copied, never modified;
+ * circular references are replaced by `[Circular]`.
+ */
+export class Redactor {
+    private readonly options: RedactionOptions;
+    private readonly keys: string[];
+    private readonly keyPatterns: RegExp[];
+    private readonly patterns: RedactionPattern[];
+
+    private readonly defaultOptions: RedactionOptions = {
+        keys: [
+            'password', 'passwd', 'pwd', 'secret', 'token', 'apiKey', 'authorization', 'cookie', 'setCookie',
+            'privateKey', 'credentials', 'cardNumber', 'cvv', 'ssn'
+        ],
+        patterns: [],
+        mask: '[REDACTED]',
+        maxDepth: 8,
+        maxItems: 100,
+        maxStringLength: 4096
+    }
+
+    /**
+     * Creates an instance of the Redactor class.
+     * @param {Partial<RedactionOptions>} [options] - Configuration options for the redaction.
+     * @param {(string | RegExp)[]} [options.keys] - Keys whose values are masked (default covers passwords, secrets, tokens, API keys, cookies and card data).
+     * @param {(RegExp | RedactionPattern)[]} [options.patterns] - Patterns masked in strings, e.g. `Object.values(RedactionPatterns)` (default is none, so only keys are masked).
+     * @param {string} [options.mask] - The replacement of masked values (default is `[REDACTED]`).
+     * @param {number} [options.maxDepth] - The depth below which objects are elided (default is 8).
+     * @param {number} [options.maxItems] - The number of keys or items kept per object or array (default is 100).
+     * @param {number} [options.maxStringLength] - The number of characters kept per string (default is 4096).
+     */
+    constructor(options?: Partial<RedactionOptions>) {
+        this.options = { ...this.defaultOptions, ...options };
+        this.keys = this.options.keys.filter((key) => typeof key === 'string').map(normalizeKey);
+        this.keyPatterns = this.options.keys.filter((key) => key instanceof RegExp);
+        this.patterns = this.options.patterns.map((pattern) => pattern instanceof RegExp ? { regex: pattern } : pattern);
+    }
+
+    /**
+     * Determines whether the value of a key is masked.
+     * @param {string} key - The key.
+     * @returns {boolean} True if the key matches one of the configured keys.
+     */
+    public isSensitiveKey(key: string): boolean {
+        const normalized = normalizeKey(key);
+
+        return this.keys.some((item) => normalized.endsWith(item))
+            || this.keyPatterns.some((pattern) => pattern.test(key));
+    }
+
+    /**
+     * Masks every match of the configured patterns in a text and truncates it to the maximum string length.
+     * @param {string} text - The text.
+     * @returns {string} The redacted text.
+     */
+    public redactText(text: string): string {
+        let result = text;
+
+        for (const { regex, validate } of this.patterns)
+            result = result.replace(regex, (match) => !validate || validate(match) ? this.options.mask : match);
+
+        if (result.length > this.options.maxStringLength)
+            return `${result.slice(0, this.options.maxStringLength)}… (${result.length - this.options.maxStringLength} more characters)`;
+
+        return result;
+    }
+
+    /**
+     * Copies a value with sensitive keys and patterns masked and its size bounded.
+     * Errors stay errors, so their stack is still logged; maps become objects and sets become arrays.
+     * @param {unknown} value - The value.
+     * @returns {unknown} The redacted copy.
+     */
+    public redact(value: unknown): unknown {
+        return this.visit(value, 0, new Set<object>());
+    }
+
+    private visit(value: unknown, depth: number, ancestors: Set<object>): unknown {
+        if (typeof value === 'string')
+            return this.redactText(value);
+
+        if (value === null || typeof value !== 'object' || value instanceof Date || value instanceof RegExp)
+            return value;
+
+        if (ArrayBuffer.isView(value))
+            return `[${value.constructor.name} ${value.byteLength} bytes]`;
+
+        if (ancestors.has(value))
+            return '[Circular]';
+
+        if (depth >= this.options.maxDepth)
+            return Array.isArray(value) || value instanceof Set ? '[Array]' : '[Object]';
+
+        ancestors.add(value);
+
+        try {
+            if (value instanceof Error)
+                return this.visitError(value, depth, ancestors);
+
+            if (Array.isArray(value) || value instanceof Set)
+                return this.visitItems([...value], depth, ancestors);
+
+            return this.visitEntries(value instanceof Map ? [...value.entries()] : Object.entries(value), depth, ancestors);
+        } finally {
+            ancestors.delete(value);
+        }
+    }
+
+    private visitItems(items: unknown[], depth: number, ancestors: Set<object>): unknown[] {
+        const result = items.slice(0, this.options.maxItems).map((item) => this.visit(item, depth + 1, ancestors));
+
+        if (items.length > this.options.maxItems)
+            result.push(`… ${items.length - this.options.maxItems} more items`);
+
+        return result;
+    }
+
+    private visitEntries(entries: [unknown, unknown][], depth: number, ancestors: Set<object>): Record<string, unknown> {
+        const result: Record<string, unknown> = {};
+
+        for (const [key, item] of entries.slice(0, this.options.maxItems)) {
+            const name = String(key);
+            result[name] = this.isSensitiveKey(name) ? this.options.mask : this.visit(item, depth + 1, ancestors);
+        }
+
+        if (entries.length > this.options.maxItems)
+            result['…'] = `${entries.length - this.options.maxItems} more keys`;
+
+        return result;
+    }
+
+    private visitError(error: Error, depth: number, ancestors: Set<object>): Error {
+        const copy: Error = Object.create(Object.getPrototypeOf(error));
+
+        Object.assign(copy, this.visitEntries(Object.entries(error), depth, ancestors));
+
+        // `message`, `stack` and `cause` are usually own but not enumerable
+        for (const key of ['name', 'message', 'stack', 'cause'] as const) {
+            if (!Object.prototype.hasOwnProperty.call(error, key))
+                continue;
+
+            const value = typeof error[key] === 'string' ? this.redactText(error[key] as string) : this.visit(error[key], depth + 1, ancestors);
+            Object.defineProperty(copy, key, { value, writable: true, configurable: true, enumerable: false });
+        }
+
+        return copy;
+    }
+}
+
+function normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+function isCardNumber(match: string): boolean {
+    const digits = match.replace(/\D/g, '');
+
+    if (digits === match && !/^(?:4|5[1-5]|2[2-7]|3[47]|6(?:011|5|4[4-9]))/.test(digits))
+        return false;
+
+    return passesLuhn(digits);
+}
+
+function passesLuhn(digits: string): boolean {
+    let sum = 0;
+
+    for (let index = 0; index < digits.length; index++) {
+        let digit = Number(digits[digits.length - 1 - index]);
+
+        if (index % 2 === 1) {
+            digit *= 2;
+
+            if (digit > 9)
+                digit -= 9;
+        }
+
+        sum += digit;
+    }
+
+    return sum % 10 === 0;
+}
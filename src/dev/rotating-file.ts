@@ -0,0 +1,240 @@
+﻿import { EventEmitter } from 'events';
+import { createReadStream, createWriteStream, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import Transport from 'winston-transport';
+import { createGzip } from 'zlib';
+
+import { IOFile, TimeSpan } from 'dash-core';
+
+
+/** When and how log files are rotated and how long rotated files are kept. */
+export type LogRotationOptions = {
+    /** Size in bytes after which the file is rotated. */
+    maxSize?: number,
+
+    /** Whether the file is rotated when the day changes. */
+    daily?: boolean,
+
+    /** Maximum number of rotated files kept per log file. */
+    maxFiles?: number,
+
+    /** Maximum age of rotated files, by modification time. */
+    maxAge?: TimeSpan,
+
+    /** Whether rotated files are compressed with gzip. */
+    compress?: boolean,
+}
+
+type rotatingFileOptions = Transport.TransportStreamOptions & {
+    /** The path of the active log file. */
+    filename: string,
+
+    /** The rotation settings. */
+    rotation: LogRotationOptions,
+}
+
+/**
+ * A winston transport writing to a file that is rotated by size and/or day.
+ * Rotated files are named `<name>.<YYYY-MM-DD>.<n><ext>`, optionally gzipped, and pruned by count and age.
+ *
+ * Transports of the same path share one writer, so loggers logging to the same file never write to a renamed one.
+ * The writer keeps the rotation settings of the first transport opening it and is closed with the last transport.
+ */
+export class RotatingFileTransport extends Transport {
+    private readonly file: RotatingFile;
+    private released: boolean = false;
+
+    /**
+     * Creates an instance of the RotatingFileTransport class.
+     * @param {rotatingFileOptions} options - The transport options.
+     * @param {string} options.filename - The path of the active log file. Its directory is created if missing.
+     * @param {LogRotationOptions} options.rotation - When files are rotated and how long rotated files are kept.
+     */
+    constructor(options: rotatingFileOptions) {
+        super(options);
+
+        this.file = RotatingFile.acquire(path.resolve(options.filename), options.rotation);
+        this.file.on('warn', this.forward);
+    }
+
+    override log(info: any, next: () => void): void {
+        const line = String(info[Symbol.for('message')]) + os.EOL;
+
+        this.file.append(line).then(() => this.emit('logged', info));
+
+        next();
+    }
+
+    override close(): void {
+        if (this.released)
+            return;
+
+        this.released = true;
+        this.file.off('warn', this.forward);
+        this.file.release().then(() => this.emit('closed'));
+    }
+
+    /**
+     * Waits until every entry received so far has been written.
+     * @returns {Promise<void>} A promise that resolves when pending writes are done.
+     */
+    public flush(): Promise<void> {
+        return this.file.flush();
+    }
+
+    private readonly forward = (error: unknown) => {
+        this.emit('warn', error);
+    };
+}
+
+/** The writer of one log file, shared by every transport of its path. */
+class RotatingFile extends EventEmitter {
+    private static readonly files = new Map<string, RotatingFile>();
+
+    private handle?: fs.FileHandle;
+    private size: number = 0;
+    private day: string = '';
+    private pending: Promise<void> = Promise.resolve();
+    private references: number = 0;
+
+    private constructor(private readonly filename: string, private readonly rotation: LogRotationOptions) {
+        super();
+    }
+
+    public static acquire(filename: string, rotation: LogRotationOptions): RotatingFile {
+        let file = RotatingFile.files.get(filename);
+
+        if (!file) {
+            file = new RotatingFile(filename, rotation);
+            RotatingFile.files.set(filename, file);
+        }
+
+        file.references++;
+        return file;
+    }
+
+    public release(): Promise<void> {
+        if (--this.references > 0)
+            return this.flush();
+
+        RotatingFile.files.delete(this.filename);
+
+        return this.enqueue(async () => {
+            await this.handle?.close();
+            this.handle = undefined;
+        });
+    }
+
+    public append(line: string): Promise<void> {
+        return this.enqueue(() => this.write(line));
+    }
+
+    public flush(): Promise<void> {
+        return this.enqueue(async () => undefined);
+    }
+
+    private enqueue(operation: () => Promise<void>): Promise<void> {
+        // Writes and rotations are serialized; a failed one is reported and does not block the following ones
+        this.pending = this.pending
+            .then(operation)
+            .catch((error) => { this.emit('warn', error); });
+
+        return this.pending;
+    }
+
+    private async write(line: string): Promise<void> {
+        const length = Buffer.byteLength(line);
+
+        if (!this.handle)
+            await this.open();
+
+        const today = formatDay(new Date());
+        const tooLarge = this.rotation.maxSize !== undefined && this.size > 0 && this.size + length > this.rotation.maxSize;
+
+        if (tooLarge || (this.rotation.daily && this.day !== today)) {
+            await this.rotate();
+            await this.open();
+        }
+
+        await this.handle!.write(line);
+        this.size += length;
+    }
+
+    private async open(): Promise<void> {
+        await fs.mkdir(path.dirname(this.filename), { recursive: true });
+
+        this.handle = await fs.open(this.filename, 'a');
+
+        const stats = await this.handle.stat();
+        this.size = stats.size;
+        this.day = formatDay(stats.size > 0 ? stats.mtime : new Date());
+    }
+
+    private async rotate(): Promise<void> {
+        await this.handle?.close();
+        this.handle = undefined;
+
+        const extension = path.extname(this.filename);
+        const base = this.filename.slice(0, this.filename.length - extension.length);
+
+        let archived: string;
+
+        for (let index = 1; ; index++) {
+            archived = `${base}.${this.day}.${index}${extension}`;
+
+            if (!await IOFile.exists(archived) && !await IOFile.exists(`${archived}.gz`))
+                break;
+        }
+
+        await fs.rename(this.filename, archived);
+
+        if (this.rotation.compress) {
+            await pipeline(createReadStream(archived), createGzip(), createWriteStream(`${archived}.gz`));
+            await fs.unlink(archived);
+        }
+
+        await this.prune(base, extension);
+    }
+
+    private async prune(base: string, extension: string): Promise<void> {
+        const { maxFiles, maxAge } = this.rotation;
+
+        if (maxFiles === undefined && maxAge === undefined)
+            return;
+
+        const directory = path.dirname(base);
+        const pattern = new RegExp(`^${escapeRegExp(path.basename(base))}\\.\\d{4}-\\d{2}-\\d{2}\\.\\d+${escapeRegExp(extension)}(\\.gz)?$`);
+
+        const rotated = await Promise.all((await fs.readdir(directory))
+            .filter((name) => pattern.test(name))
+            .map(async (name) => {
+                const filePath = path.join(directory, name);
+                const sequence = Number(name.slice(path.basename(base).length + 12).split('.')[0]);
+
+                return { filePath, sequence, modified: (await fs.stat(filePath)).mtimeMs };
+            }));
+
+        // Newest first; files rotated within the same clock tick are ordered by their sequence number
+        rotated.sort((a, b) => b.modified - a.modified || b.sequence - a.sequence);
+
+        const now = Date.now();
+
+        for (const [index, file] of rotated.entries()) {
+            const expired = maxAge !== undefined && now - file.modified > maxAge.totalMilliseconds;
+
+            if (expired || (maxFiles !== undefined && index >= maxFiles))
+                await fs.rm(file.filePath, { force: true });
+        }
+    }
+}
+
+function formatDay(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
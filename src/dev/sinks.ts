@@ -0,0 +1,312 @@
+﻿import axios from 'axios';
+import dgram from 'dgram';
+import os from 'os';
+
+import { ExponentialBackoff, ExponentialBackoffOptions, RetryPolicy, TimeSpan } from 'dash-core';
+import { HttpRetryRules } from '../web/retry-rules';
+import { LogEntry, LogLevel, LogSink, safeStringify } from './logging';
+
+
+/**
+ * Keeps every entry in memory, so tests can assert on what was logged without touching the `logs/` directory.
+ */
+export class MemorySink implements LogSink {
+    private readonly captured: LogEntry[] = [];
+
+    /** Gets the captured entries, oldest first. */
+    get entries(): readonly LogEntry[] {
+        return this.captured;
+    }
+
+    public write(entry: LogEntry): void {
+        this.captured.push(entry);
+    }
+
+    /**
+     * Finds the first captured entry matching the predicate.
+     * @param {(entry: LogEntry) => boolean} predicate - The condition to test.
+     * @returns {LogEntry | undefined} The entry, or undefined if none matches.
+     */
+    public find(predicate: (entry: LogEntry) => boolean): LogEntry | undefined {
+        return this.captured.find(predicate);
+    }
+
+    /**
+     * Gets the captured entries of a level.
+     * @param {LogLevel} level - The level.
+     * @returns {LogEntry[]} The entries, oldest first.
+     */
+    public ofLevel(level: LogLevel): LogEntry[] {
+        return this.captured.filter((entry) => entry.level === level);
+    }
+
+    /**
+     * Removes every captured entry.
+     */
+    public clear(): void {
+        this.captured.length = 0;
+    }
+}
+
+/**
+ * Keeps the most recent entries, e.g. to attach them to a crash report. Older entries are overwritten.
+ */
+export class RingBufferSink implements LogSink {
+    private readonly buffer: LogEntry[] = [];
+    private next: number = 0;
+
+    /**
+     * Creates an instance of the RingBufferSink class.
+     * @param {number} capacity - The number of entries kept.
+     */
+    constructor(public readonly capacity: number) {
+        if (!Number.isInteger(capacity) || capacity <= 0) {
+            throw new Error('The capacity must be a positive integer');
+        }
+    }
+
+    /** Gets the kept entries, oldest first. */
+    get entries(): LogEntry[] {
+        return [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+    }
+
+    public write(entry: LogEntry): void {
+        this.buffer[this.next] = entry;
+        this.next = (this.next + 1) % this.capacity;
+    }
+
+    /**
+     * Removes every kept entry.
+     */
+    public clear(): void {
+        this.buffer.length = 0;
+        this.next = 0;
+    }
+}
+
+type httpBatchSinkOptions = {
+    /** The endpoint receiving batches as a JSON array of entries. */
+    url: string,
+
+    /** Additional request headers, e.g. an authorization header. */
+    headers?: Record<string, string>,
+
+    /** The number of buffered entries that triggers a flush. */
+    batchSize: number,
+
+    /** How often buffered entries are flushed regardless of their number. */
+    flushInterval: TimeSpan,
+
+    /** The maximum number of buffered entries; the oldest ones are dropped beyond it. */
+    maxBuffer: number,
+
+    /** The backoff between attempts to post a batch. */
+    backoff: ExponentialBackoffOptions,
+
+    /** The maximum number of attempts to post a batch. */
+    maxAttempts: number,
+
+    /** Rules deciding which failed posts are retried and how `Retry-After` is honoured. */
+    retryRules: HttpRetryRules,
+
+    /** Receives batches that could not be delivered and entries dropped because the buffer was full. */
+    onError?: (error: unknown, entries: LogEntry[]) => void,
+}
+
+/**
+ * Posts entries in batches to an HTTP endpoint. Posts failing with a network error, 408, 429 or 5xx are retried
+ * with exponential backoff; other failures and batches that still fail are handed to `onError` and dropped.
+ */
+export class HttpBatchSink implements LogSink {
+    private readonly options: httpBatchSinkOptions;
+    private readonly retryPolicy: RetryPolicy;
+    private readonly timer: NodeJS.Timeout;
+
+    private buffer: LogEntry[] = [];
+    private sending: Promise<void> = Promise.resolve();
+    private closed: boolean = false;
+
+    private readonly defaultOptions: Omit<httpBatchSinkOptions, 'url'> = {
+        batchSize: 100,
+        flushInterval: TimeSpan.fromSeconds(5),
+        maxBuffer: 10000,
+        backoff: { initialDelay: TimeSpan.fromSeconds(1), maxDelay: TimeSpan.fromSeconds(30), factor: 2 },
+        maxAttempts: 5,
+        // Posting a batch again at worst duplicates entries, so posts are retried without an idempotency key
+        retryRules: new HttpRetryRules({ idempotentMethods: ['post'] })
+    }
+
+    /**
+     * Creates an instance of the HttpBatchSink class.
+     * @param {Partial<httpBatchSinkOptions> & { url: string }} options - Configuration options for the sink.
+     * @param {string} options.url - The endpoint receiving batches as a JSON array of entries.
+     * @param {Record<string, string>} [options.headers] - Additional request headers.
+     * @param {number} [options.batchSize] - The number of buffered entries that triggers a flush (default is 100).
+     * @param {TimeSpan} [options.flushInterval] - How often buffered entries are flushed (default is 5 seconds).
+     * @param {number} [options.maxBuffer] - The maximum number of buffered entries (default is 10000).
+     * @param {ExponentialBackoffOptions} [options.backoff] - The backoff between attempts (default is 1 second doubling up to 30 seconds).
+     * @param {number} [options.maxAttempts] - The maximum number of attempts to post a batch (default is 5).
+     * @param {HttpRetryRules} [options.retryRules] - Rules deciding which failed posts are retried (default retries network errors, 408, 429 and 5xx).
+     * @param {(error: unknown, entries: LogEntry[]) => void} [options.onError] - Receives entries that could not be delivered.
+     */
+    constructor(options: Partial<httpBatchSinkOptions> & { url: string }) {
+        this.options = { ...this.defaultOptions, ...options };
+        const retryRules = this.options.retryRules;
+
+        this.retryPolicy = new ExponentialBackoff(this.options.backoff, {
+            maxAttempts: this.options.maxAttempts,
+            shouldRetry: (error) => retryRules.shouldRetry(error),
+            retryAfter: (error) => retryRules.getRetryAfter(error)
+        });
+
+        this.timer = setInterval(() => this.flush(), this.options.flushInterval.totalMilliseconds);
+        this.timer.unref();
+    }
+
+    /** Gets the number of entries waiting to be posted. */
+    get pending(): number {
+        return this.buffer.length;
+    }
+
+    public write(entry: LogEntry): void {
+        if (this.closed)
+            return;
+
+        this.buffer.push(entry);
+
+        if (this.buffer.length > this.options.maxBuffer) {
+            const dropped = this.buffer.splice(0, this.buffer.length - this.options.maxBuffer);
+            this.options.onError?.(new Error(`Log buffer is full, dropped ${dropped.length} entries`), dropped);
+        }
+
+        if (this.buffer.length >= this.options.batchSize)
+            this.flush();
+    }
+
+    /**
+     * Posts every buffered entry. Batches are posted one at a time, in order.
+     * @returns {Promise<void>} A promise that resolves when the entries have been delivered or given up on.
+     */
+    public flush(): Promise<void> {
+        while (this.buffer.length > 0) {
+            const batch = this.buffer.splice(0, this.options.batchSize);
+
+            this.sending = this.sending.then(() => this.send(batch));
+        }
+
+        return this.sending;
+    }
+
+    /**
+     * Stops the flush timer and posts the remaining entries. Entries written afterwards are dropped.
+     * @returns {Promise<void>} A promise that resolves when the remaining entries have been delivered or given up on.
+     */
+    public close(): Promise<void> {
+        this.closed = true;
+        clearInterval(this.timer);
+
+        return this.flush();
+    }
+
+    private async send(batch: LogEntry[]): Promise<void> {
+        try {
+            await this.retryPolicy.execute(() => axios.post(this.options.url, batch, { headers: this.options.headers }));
+        } catch (error) {
+            this.options.onError?.(error, batch);
+        }
+    }
+}
+
+type syslogSinkOptions = {
+    /** The host of the syslog server. */
+    host: string,
+
+    /** The UDP port of the syslog server. */
+    port: number,
+
+    /** The syslog facility code, e.g. 1 for user-level or 16 to 23 for local0 to local7. */
+    facility: number,
+
+    /** The host name reported in messages. */
+    hostname: string,
+
+    /** The application name reported in messages; the service name of the entry if not set. */
+    appName?: string,
+}
+
+const SYSLOG_SEVERITIES: Record<LogLevel, number> = {
+    [LogLevel.ERROR]: 3,
+    [LogLevel.WARNING]: 4,
+    [LogLevel.INFO]: 6,
+    [LogLevel.DEBUG]: 7
+};
+
+/**
+ * Sends entries to a syslog server over UDP, formatted according to RFC 5424.
+ * Fields other than the message are appended to it as JSON.
+ */
+export class SyslogSink implements LogSink {
+    private readonly options: syslogSinkOptions;
+    private socket?: dgram.Socket;
+
+    private readonly defaultOptions: syslogSinkOptions = {
+        host: 'localhost',
+        port: 514,
+        facility: 1,
+        hostname: os.hostname()
+    }
+
+    /**
+     * Creates an instance of the SyslogSink class.
+     * @param {Partial<syslogSinkOptions>} [options] - Configuration options for the sink.
+     * @param {string} [options.host] - The host of the syslog server (default is localhost).
+     * @param {number} [options.port] - The UDP port of the syslog server (default is 514).
+     * @param {number} [options.facility] - The syslog facility code (default is 1, user-level messages).
+     * @param {string} [options.hostname] - The host name reported in messages (default is the name of this machine).
+     * @param {string} [options.appName] - The application name reported in messages (default is the service name).
+     */
+    constructor(options?: Partial<syslogSinkOptions>) {
+        this.options = { ...this.defaultOptions, ...options };
+    }
+
+    public write(entry: LogEntry): Promise<void> {
+        const message = Buffer.from(this.format(entry));
+
+        if (!this.socket) {
+            this.socket = dgram.createSocket('udp4');
+            this.socket.unref();
+        }
+
+        return new Promise((resolve, reject) =>
+            this.socket!.send(message, this.options.port, this.options.host, (error) => error ? reject(error) : resolve()));
+    }
+
+    /**
+     * Closes the socket. A later write opens a new one.
+     */
+    public async close(): Promise<void> {
+        this.socket?.close();
+        this.socket = undefined;
+    }
+
+    /**
+     * Formats an entry as an RFC 5424 message without structured data.
+     */
+    private format(entry: LogEntry): string {
+        const { timestamp, level, service, message, ...fields } = entry;
+
+        const priority = this.options.facility * 8 + (SYSLOG_SEVERITIES[level] ?? SYSLOG_SEVERITIES[LogLevel.INFO]);
+        const appName = toHeaderField(this.options.appName ?? service);
+        const body = Object.keys(fields).length > 0 ? `${message} ${safeStringify(fields)}` : message;
+
+        return `<${priority}>1 ${timestamp ?? new Date().toISOString()} ${toHeaderField(this.options.hostname)} ${appName} ${process.pid} - - ${body}`;
+    }
+}
+
+/**
+ * Converts a value into a syslog header field: printable ASCII without spaces, `-` if empty.
+ */
+function toHeaderField(value: string | undefined): string {
+    const result = (value ?? '').replace(/[^\x21-\x7e]/g, '_');
+    return result.length > 0 ? result : '-';
+}
@@ -0,0 +1,230 @@
+﻿import JSON5 from 'json5';
+import path from 'path';
+import { parse as parseToml } from 'smol-toml';
+import { parse as parseYaml } from 'yaml';
+
+
+/** Parses the content of a configuration file. */
+export type ConfigParser = (content: string, filePath: string) => unknown;
+
+type registeredParser = {
+    parse: ConfigParser,
+
+    /** Whether the parser yields flat `KEY=value` pairs that are mapped onto configuration keys like environment variables. */
+    keyValue: boolean
+}
+
+/**
+ * Thrown when a configuration file cannot be parsed. Reports the position of the problem when the parser provides one.
+ */
+export class ConfigParseError extends Error {
+    /**
+     * @param {string} filePath - The path of the file that failed to parse.
+     * @param {string} reason - What the parser complained about.
+     * @param {number} [line] - The 1-based line of the problem.
+     * @param {number} [column] - The 1-based column of the problem.
+     */
+    constructor(public readonly filePath: string, public readonly reason: string, public readonly line?: number, public readonly column?: number) {
+        super(`Failed to parse ${filePath}${line !== undefined ? `:${line}` : ''}${column !== undefined ? `:${column}` : ''}: ${reason}`);
+        this.name = 'ConfigParseError';
+    }
+}
+
+/**
+ * Registry of configuration parsers, picked by file extension.
+ * JSON, JSON5/JSONC, YAML, TOML and `.env` are registered out of the box.
+ */
+export class ConfigParsers {
+    private static readonly parsers = new Map<string, registeredParser>();
+
+    /**
+     * Registers a parser for one or more file extensions, replacing any parser registered before.
+     * @param {string | string[]} extensions - The extensions, with or without the leading dot (e.g. `.ini`).
+     * @param {ConfigParser} parse - The parser. Errors carrying `line` and `column` properties are reported with their position.
+     * @param {boolean} [keyValue=false] - Whether the parser yields flat `KEY=value` pairs, mapped onto configuration keys like environment variables.
+     */
+    static register(extensions: string | string[], parse: ConfigParser, keyValue: boolean = false): void {
+        for (const extension of Array.isArray(extensions) ? extensions : [extensions])
+            ConfigParsers.parsers.set(normalizeExtension(extension), { parse, keyValue });
+    }
+
+    /**
+     * Gets the extension a file's parser is picked by. Dotfiles such as `.env` are their own extension.
+     * @param {string} filePath - The path of the file.
+     * @returns {string} The lowercase extension including the leading dot.
+     */
+    static getExtension(filePath: string): string {
+        const baseName = path.basename(filePath);
+
+        if (baseName.startsWith('.') && baseName.indexOf('.', 1) < 0)
+            return baseName.toLowerCase();
+
+        return path.extname(baseName).toLowerCase();
+    }
+
+    /**
+     * Determines whether a parser is registered for the extension of the file.
+     * @param {string} filePath - The path of the file.
+     * @returns {boolean} True if the file can be parsed.
+     */
+    static supports(filePath: string): boolean {
+        return ConfigParsers.parsers.has(ConfigParsers.getExtension(filePath));
+    }
+
+    /**
+     * Determines whether the parser for the file yields flat `KEY=value` pairs.
+     * @param {string} filePath - The path of the file.
+     * @returns {boolean} True for key-value formats such as `.env`.
+     */
+    static isKeyValue(filePath: string): boolean {
+        return ConfigParsers.parsers.get(ConfigParsers.getExtension(filePath))?.keyValue ?? false;
+    }
+
+    /**
+     * Parses the content of a configuration file with the parser registered for its extension.
+     * @param {string} content - The content of the file.
+     * @param {string} filePath - The path of the file, used to pick the parser and in error messages.
+     * @param {string} [extension] - Overrides the extension the parser is picked by.
+     * @returns {unknown} The parsed value.
+     * @throws {ConfigParseError} If no parser is registered for the extension or the content is malformed.
+     */
+    static parse(content: string, filePath: string, extension: string = ConfigParsers.getExtension(filePath)): unknown {
+        const parser = ConfigParsers.parsers.get(normalizeExtension(extension));
+
+        if (!parser) {
+            throw new ConfigParseError(filePath, `no parser registered for '${extension}' files`);
+        }
+
+        try {
+            return parser.parse(content, filePath);
+        } catch (error) {
+            throw toParseError(error, content, filePath);
+        }
+    }
+}
+
+function asNumber(value: unknown): number | undefined {
+    return typeof value === 'number' ? value : undefined;
+}
+
+function normalizeExtension(extension: string): string {
+    return (extension.startsWith('.') ? extension : `.${extension}`).toLowerCase();
+}
+
+function toParseError(error: unknown, content: string, filePath: string): ConfigParseError {
+    if (error instanceof ConfigParseError)
+        return error;
+
+    const reason = (error instanceof Error ? error.message : String(error)).split('\n')[0];
+    const details: Record<string, unknown> = error !== null && typeof error === 'object' ? error as Record<string, unknown> : {};
+
+    // smol-toml and custom parsers
+    if (typeof details.line === 'number')
+        return new ConfigParseError(filePath, reason, details.line, asNumber(details.column));
+
+    // json5
+    if (typeof details.lineNumber === 'number')
+        return new ConfigParseError(filePath, reason, details.lineNumber, asNumber(details.columnNumber));
+
+    // yaml
+    const linePos = Array.isArray(details.linePos) ? details.linePos[0] as Record<string, unknown> | undefined : undefined;
+
+    if (typeof linePos?.line === 'number')
+        return new ConfigParseError(filePath, reason, linePos.line, asNumber(linePos.col));
+
+    // JSON.parse reports either a line and column or an offset, depending on the Node version
+    const lineColumn = reason.match(/line (\d+) column (\d+)/);
+
+    if (lineColumn)
+        return new ConfigParseError(filePath, reason, Number(lineColumn[1]), Number(lineColumn[2]));
+
+    const position = reason.match(/position (\d+)/);
+
+    if (position) {
+        const before = content.slice(0, Number(position[1])).split('\n');
+        return new ConfigParseError(filePath, reason, before.length, before[before.length - 1].length + 1);
+    }
+
+    return new ConfigParseError(filePath, reason);
+}
+
+function parseJson(content: string): unknown {
+    try {
+        return JSON.parse(content);
+    } catch (error) {
+        // `JSON.parse` does not always report where it failed; the JSON5 parser does, for everything that is not valid JSON5 either
+        JSON5.parse(content);
+        throw error;
+    }
+}
+
+/**
+ * Parses `KEY=value` lines. Supports comments, `export` prefixes, single and double quotes
+ * (with escape sequences in double quotes) and multi-line quoted values.
+ */
+function parseDotEnv(content: string): Record<string, string> {
+    const result: Record<string, string> = {};
+    const lines = content.split(/\r?\n/);
+
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        const trimmed = line.trim();
+
+        if (trimmed === '' || trimmed.startsWith('#'))
+            continue;
+
+        const match = trimmed.match(/^(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/);
+
+        if (!match) {
+            throw Object.assign(new Error(`expected KEY=value but got '${trimmed}'`), { line: index + 1, column: line.indexOf(trimmed) + 1 });
+        }
+
+        const [, key] = match;
+        let value = match[2];
+        const quote = value[0];
+
+        if (quote === '"' || quote === "'") {
+            const startLine = index;
+            let body = value.slice(1);
+
+            while (findClosingQuote(body, quote) < 0) {
+                if (++index >= lines.length) {
+                    throw Object.assign(new Error(`unterminated ${quote} quote for '${key}'`), { line: startLine + 1, column: line.indexOf(quote) + 1 });
+                }
+
+                body += '\n' + lines[index];
+            }
+
+            value = body.slice(0, findClosingQuote(body, quote));
+
+            if (quote === '"')
+                value = value.replace(/\\([nrt"\\])/g, (_, char: string) => ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[char] ?? char);
+        } else {
+            value = value.replace(/\s+#.*$/, '').trim();
+        }
+
+        result[key] = value;
+    }
+
+    return result;
+}
+
+function findClosingQuote(body: string, quote: string): number {
+    for (let index = 0; index < body.length; index++) {
+        if (body[index] === '\\' && quote === '"') {
+            index++;
+            continue;
+        }
+
+        if (body[index] === quote)
+            return index;
+    }
+
+    return -1;
+}
+
+ConfigParsers.register('.json', parseJson);
+ConfigParsers.register(['.json5', '.jsonc'], (content) => JSON5.parse(content));
+ConfigParsers.register(['.yaml', '.yml'], (content) => parseYaml(content));
+ConfigParsers.register('.toml', (content) => parseToml(content));
+ConfigParsers.register('.env', parseDotEnv, true);
@@ -1,8 +1,45 @@
 ﻿import { IOFile } from './file';
-import { ServiceLogger } from 'dash-core';
+import { ConfigParseError, ConfigParsers } from './config-parsers';
+import { ConfigSchema, ConfigValidationError, isPlainObject, validateConfig } from './config-schema';
+import { FileWatcher } from './file-watcher';
+import { LiveConfig } from './live-config';
+import { ServiceLogger, TimeSpan } from 'dash-core';
 import path from 'path';
 
 
+/** Options of a layered configuration load. */
+export type ConfigLoadOptions<TConfig> = {
+    /** The path of the base configuration file (e.g. './config.json'). */
+    path: string,
+
+    /** The default configuration values, used as the lowest layer. */
+    defaults: TConfig,
+
+    /** Optional schema the merged configuration is validated against. */
+    schema?: ConfigSchema,
+
+    /** Whether keys missing from the schema are accepted at the top level. */
+    allowUnknown?: boolean,
+
+    /** The environment name selecting the `config.<environment>.json` layer (default is `NODE_ENV`). */
+    environment?: string,
+
+    /** Prefix of environment variables that override values, e.g. `APP_` for `APP_DATABASE__PORT`. Overrides are skipped if not set. */
+    envPrefix?: string,
+
+    /** The environment variables to read overrides from (default is `process.env`). */
+    env?: Record<string, string | undefined>,
+
+    /** Whether a missing base file is accepted (default is false). */
+    optional?: boolean,
+}
+
+/** Options of a watched configuration load. */
+export type ConfigWatchOptions<TConfig> = ConfigLoadOptions<TConfig> & {
+    /** How long to wait after the last file change before reloading (default is 300 milliseconds). */
+    debounce?: TimeSpan
+}
+
 /** Reads config files and merges with defaults.*/
 export class ConfigReader {
     private readonly logger;
@@ -20,31 +57,266 @@ export class ConfigReader {
      */
     public async readConfig<TConfig>(configPath: string, defaultConfig: TConfig): Promise<TConfig> {
         try {
-            return ConfigReader.readConfig(configPath, defaultConfig);
+            return await ConfigReader.readConfig(configPath, defaultConfig);
         } catch (error) {
             this.logger?.error(error instanceof Error ? error.message : String(error));
             return defaultConfig;
         }
     }
 
+    /**
+     * Loads a layered configuration and validates it. Validation issues are logged before the error is rethrown.
+     * @param {ConfigLoadOptions<TConfig>} options - Options of the load.
+     * @returns {Promise<TConfig>} A promise that resolves to the merged configuration object.
+     * @throws {ConfigValidationError} If the merged configuration does not match the schema.
+     * @template TConfig - The type of the configuration object.
+     */
+    public async load<TConfig>(options: ConfigLoadOptions<TConfig>): Promise<TConfig> {
+        try {
+            const config = await ConfigReader.load(options);
+            this.logger?.debug(`Configuration loaded from ${options.path}`);
+            return config;
+        } catch (error) {
+            this.logger?.error(error instanceof Error ? error.message : String(error));
+            throw error;
+        }
+    }
+
+    /**
+     * Loads a layered configuration and keeps it up to date with its files. Reloads and rejections are logged.
+     * @param {ConfigWatchOptions<TConfig>} options - Options of the load and the debounce of reloads.
+     * @returns {Promise<LiveConfig<TConfig>>} A promise that resolves to the live configuration handle.
+     * @throws {ConfigValidationError} If the initial configuration does not match the schema.
+     * @template TConfig - The type of the configuration object.
+     */
+    public async watch<TConfig>(options: ConfigWatchOptions<TConfig>): Promise<LiveConfig<TConfig>> {
+        try {
+            return await ConfigReader.watch(options, this.logger);
+        } catch (error) {
+            this.logger?.error(error instanceof Error ? error.message : String(error));
+            throw error;
+        }
+    }
+
     /**
      * Reads the configuration from the specified file and populates the given object with values from the file.
+     * Nested objects are merged key by key; arrays and other values from the file replace the defaults.
+     * The file format is picked by extension from the parsers registered in `ConfigParsers`;
+     * files without a registered extension are read as JSON.
      * @param {string} configPath - The path to the configuration file (e.g., './config.json').
      * @param {TConfig} defaultConfig - The object that contains the default configuration values.
      * @returns {Promise<TConfig>} A promise that resolves to the merged configuration object.
+     * @throws {ConfigParseError} If the file is malformed, with the line and column of the problem.
      * @template TConfig - The type of the configuration object.
      */
     public static async readConfig<TConfig>(configPath: string, defaultConfig: TConfig): Promise<TConfig> {
         try {
-            const fullPath = path.resolve(configPath);
+            const parsedConfig = await readLayer(path.resolve(configPath), defaultConfig);
 
-            const fileContent = await IOFile.read(fullPath);
-
-            const parsedConfig = JSON.parse(fileContent);
-
-            return Object.assign({}, defaultConfig, parsedConfig);
+            return deepMerge(defaultConfig, parsedConfig) as TConfig;
         } catch (error) {
+            if (error instanceof ConfigParseError)
+                throw error;
+
             throw new Error('Error reading or parsing the configuration file: ' + error);
         }
     }
+
+    /**
+     * Loads a layered configuration: defaults, then the base file, then `config.<environment>.json`
+     * next to it if present, then prefixed environment variables. The result is validated against the schema, if given.
+     * Files may be in any format registered in `ConfigParsers`; the environment file uses the extension of the base file.
+     * @param {ConfigLoadOptions<TConfig>} options - Options of the load.
+     * @returns {Promise<TConfig>} A promise that resolves to the merged configuration object.
+     * @throws {ConfigParseError} If a file is malformed, with the line and column of the problem.
+     * @throws {ConfigValidationError} If the merged configuration does not match the schema.
+     * @template TConfig - The type of the configuration object.
+     */
+    public static async load<TConfig>(options: ConfigLoadOptions<TConfig>): Promise<TConfig> {
+        const sources = new Map<string, string>();
+        const basePath = path.resolve(options.path);
+        const env = options.env ?? process.env;
+        const environment = options.environment ?? env['NODE_ENV'];
+
+        let config = trackSources(options.defaults, 'defaults', sources);
+
+        if (!options.optional || await IOFile.exists(basePath))
+            config = deepMerge(config, await readLayer(basePath, config, options.schema), basePath, sources);
+
+        if (environment) {
+            const environmentPath = getEnvironmentPath(basePath, environment);
+
+            // `.env` has no extension of its own, so `.env.production` is read with the parser of the base file
+            if (await IOFile.exists(environmentPath))
+                config = deepMerge(config, await readLayer(environmentPath, config, options.schema, basePath), environmentPath, sources);
+        }
+
+        if (options.envPrefix)
+            config = deepMerge(config, readEnvironment(env, options.envPrefix, config, options.schema), 'env', sources);
+
+        if (options.schema) {
+            const issues = validateConfig(config, options.schema, (key) => findSource(sources, key), options.allowUnknown);
+
+            if (issues.length > 0)
+                throw new ConfigValidationError(issues);
+        }
+
+        return config as TConfig;
+    }
+
+    /**
+     * Loads a layered configuration and keeps it up to date with the base and environment files.
+     * Every new version is loaded and validated like `load` before it is swapped in; a version that fails keeps the last good one.
+     * @param {ConfigWatchOptions<TConfig>} options - Options of the load and the debounce of reloads.
+     * @param {ServiceLogger} [logger] - Optional logger recording reloads and rejections.
+     * @returns {Promise<LiveConfig<TConfig>>} A promise that resolves to the live configuration handle.
+     * @throws {ConfigValidationError} If the initial configuration does not match the schema.
+     * @template TConfig - The type of the configuration object.
+     */
+    public static async watch<TConfig>(options: ConfigWatchOptions<TConfig>, logger?: ServiceLogger): Promise<LiveConfig<TConfig>> {
+        const basePath = path.resolve(options.path);
+        const environment = options.environment ?? (options.env ?? process.env)['NODE_ENV'];
+        const files = environment ? [basePath, getEnvironmentPath(basePath, environment)] : [basePath];
+
+        const initial = await ConfigReader.load(options);
+        const watcher = new FileWatcher(files, { debounce: options.debounce ?? TimeSpan.fromMilliseconds(300), logger });
+
+        await watcher.start();
+
+        return new LiveConfig(initial, () => ConfigReader.load(options), watcher, logger);
+    }
+}
+
+function getEnvironmentPath(basePath: string, environment: string): string {
+    const extension = path.extname(basePath);
+    return basePath.slice(0, basePath.length - extension.length) + `.${environment}${extension}`;
+}
+
+async function readLayer(filePath: string, config: unknown, schema?: ConfigSchema, formatPath: string = filePath): Promise<Record<string, unknown>> {
+    const fileContent = await IOFile.read(filePath);
+    // Files without a registered extension are read as JSON, as they were before formats became pluggable
+    const extension = ConfigParsers.supports(formatPath) ? ConfigParsers.getExtension(formatPath) : '.json';
+    const parsed = ConfigParsers.parse(fileContent, filePath, extension);
+
+    // Key-value formats such as `.env` address nested keys the same way environment variables do
+    if (ConfigParsers.isKeyValue(formatPath))
+        return readEnvironment(parsed as Record<string, string>, '', config, schema);
+
+    if (!isPlainObject(parsed)) {
+        throw new Error(`Configuration file ${filePath} must contain an object`);
+    }
+
+    return parsed;
+}
+
+/**
+ * Merges `source` into a copy of `target`. Plain objects are merged recursively; everything else is replaced.
+ * When a source map is given, the origin of every replaced key path is recorded in it.
+ */
+function deepMerge(target: unknown, source: unknown, origin?: string, sources?: Map<string, string>, prefix: string = ''): unknown {
+    if (!isPlainObject(target) || !isPlainObject(source)) {
+        if (origin && sources)
+            sources.set(prefix, origin);
+
+        return source;
+    }
+
+    const result: Record<string, unknown> = { ...target };
+
+    for (const [key, value] of Object.entries(source)) {
+        if (value === undefined)
+            continue;
+
+        const keyPath = prefix ? `${prefix}.${key}` : key;
+        result[key] = deepMerge(target[key], value, origin, sources, keyPath);
+    }
+
+    return result;
+}
+
+function trackSources(config: unknown, origin: string, sources: Map<string, string>, prefix: string = ''): unknown {
+    if (!isPlainObject(config)) {
+        sources.set(prefix, origin);
+        return config;
+    }
+
+    for (const [key, value] of Object.entries(config))
+        trackSources(value, origin, sources, prefix ? `${prefix}.${key}` : key);
+
+    return config;
+}
+
+function findSource(sources: Map<string, string>, keyPath: string): string | undefined {
+    // Array items and keys below a replaced value inherit the source of their closest tracked parent
+    for (let current = keyPath.replace(/\[\d+\]/g, ''); current; current = current.slice(0, Math.max(0, current.lastIndexOf('.')))) {
+        const source = sources.get(current);
+
+        if (source)
+            return source;
+    }
+
+    return undefined;
+}
+
+/**
+ * Builds an override layer from environment variables. `PREFIX_A__B_C` addresses the key `a.bC`:
+ * double underscores separate nesting levels, and segments match existing keys ignoring case and underscores.
+ */
+function readEnvironment(env: Record<string, string | undefined>, prefix: string, config: unknown, schema?: ConfigSchema): Record<string, unknown> {
+    const layer: Record<string, unknown> = {};
+
+    for (const [name, raw] of Object.entries(env)) {
+        if (raw === undefined || !name.startsWith(prefix) || name.length === prefix.length)
+            continue;
+
+        let target = layer;
+        let current = config;
+        let fields = schema;
+
+        const segments = name.slice(prefix.length).split('__');
+
+        segments.forEach((segment, index) => {
+            const known = [...Object.keys(isPlainObject(current) ? current : {}), ...Object.keys(fields ?? {})];
+            const key = known.find((item) => normalizeKey(item) === normalizeKey(segment)) ?? segment.toLowerCase();
+
+            const field = fields?.[key];
+            current = isPlainObject(current) ? current[key] : undefined;
+            fields = field?.properties;
+
+            if (index === segments.length - 1) {
+                target[key] = coerceValue(raw, field?.type ?? typeof current);
+                return;
+            }
+
+            if (!isPlainObject(target[key]))
+                target[key] = {};
+
+            target = target[key] as Record<string, unknown>;
+        });
+    }
+
+    return layer;
+}
+
+function normalizeKey(key: string): string {
+    return key.replace(/_/g, '').toLowerCase();
+}
+
+function coerceValue(raw: string, type: string): unknown {
+    switch (type) {
+        case 'number':
+        case 'integer':
+            return raw.trim() === '' || isNaN(Number(raw)) ? raw : Number(raw);
+        case 'boolean':
+            return raw === 'true' || raw === '1' ? true : raw === 'false' || raw === '0' ? false : raw;
+        case 'object':
+        case 'array':
+            try {
+                return JSON.parse(raw);
+            } catch {
+                return raw;
+            }
+        default:
+            return raw;
+    }
 }
@@ -0,0 +1,165 @@
+﻿export type ConfigFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'any';
+
+/** Describes a single configuration value. */
+export type ConfigField = {
+    /** The expected type of the value. */
+    type: ConfigFieldType,
+
+    /** Whether the value has to be present and not null. */
+    required?: boolean,
+
+    /** Lower bound of a number, or of the length of a string or array. */
+    min?: number,
+
+    /** Upper bound of a number, or of the length of a string or array. */
+    max?: number,
+
+    /** The allowed values. */
+    enum?: readonly unknown[],
+
+    /** A pattern string values have to match. */
+    pattern?: RegExp,
+
+    /** The schema of a nested object. */
+    properties?: ConfigSchema,
+
+    /** The schema of every array item. */
+    items?: ConfigField,
+
+    /** Whether a nested object may contain keys missing from `properties`. */
+    allowUnknown?: boolean,
+}
+
+/** Describes the keys of a configuration object. */
+export type ConfigSchema = Record<string, ConfigField>;
+
+/** A single problem found while validating a configuration. */
+export type ConfigIssue = {
+    /** The dotted path of the offending key, e.g. `database.port`. */
+    path: string,
+
+    /** What is wrong with the value. */
+    message: string,
+
+    /** Where the value came from: a file path, `env` or `defaults`. */
+    source?: string
+}
+
+/**
+ * Thrown when a configuration does not match its schema. Carries every issue found, not just the first one.
+ */
+export class ConfigValidationError extends Error {
+    /**
+     * @param {ConfigIssue[]} issues - The issues found.
+     */
+    constructor(public readonly issues: ConfigIssue[]) {
+        super('Invalid configuration:\n' + issues.map(formatIssue).join('\n'));
+        this.name = 'ConfigValidationError';
+    }
+}
+
+/**
+ * Validates a configuration object against a schema.
+ * @param {unknown} config - The configuration to validate.
+ * @param {ConfigSchema} schema - The schema of the top-level keys.
+ * @param {(path: string) => string | undefined} [getSource] - Resolves where the value at a path came from.
+ * @param {boolean} [allowUnknown=false] - Whether top-level keys missing from the schema are accepted.
+ * @returns {ConfigIssue[]} Every issue found; empty if the configuration is valid.
+ */
+export function validateConfig(config: unknown, schema: ConfigSchema, getSource?: (path: string) => string | undefined, allowUnknown: boolean = false): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    const report = (path: string, message: string) => issues.push({ path, message, source: getSource?.(path) });
+
+    validateObject(config, { type: 'object', properties: schema, allowUnknown }, '', report);
+
+    return issues;
+}
+
+function validateValue(value: unknown, field: ConfigField, path: string, report: (path: string, message: string) => void): void {
+    if (value === undefined || value === null) {
+        if (field.required)
+            report(path, 'is required');
+
+        return;
+    }
+
+    if (!matchesType(value, field.type)) {
+        report(path, `expected ${field.type} but got ${describeType(value)}`);
+        return;
+    }
+
+    if (field.enum && !field.enum.includes(value))
+        report(path, `must be one of ${field.enum.map((item) => JSON.stringify(item)).join(', ')}`);
+
+    if (typeof value === 'string' && field.pattern && !field.pattern.test(value))
+        report(path, `must match ${field.pattern}`);
+
+    const size = typeof value === 'number' ? value : (typeof value === 'string' || Array.isArray(value)) ? value.length : undefined;
+    const unit = typeof value === 'number' ? '' : ' in length';
+
+    if (size !== undefined && field.min !== undefined && size < field.min)
+        report(path, `must be at least ${field.min}${unit}`);
+
+    if (size !== undefined && field.max !== undefined && size > field.max)
+        report(path, `must be at most ${field.max}${unit}`);
+
+    if (field.type === 'object')
+        validateObject(value, field, path, report);
+
+    if (Array.isArray(value) && field.items) {
+        const items = field.items;
+        value.forEach((item, index) => validateValue(item, items, `${path}[${index}]`, report));
+    }
+}
+
+function validateObject(value: unknown, field: ConfigField, path: string, report: (path: string, message: string) => void): void {
+    if (!field.properties || !isPlainObject(value))
+        return;
+
+    for (const [key, child] of Object.entries(field.properties))
+        validateValue(value[key], child, joinPath(path, key), report);
+
+    if (field.allowUnknown)
+        return;
+
+    for (const key of Object.keys(value)) {
+        if (!(key in field.properties))
+            report(joinPath(path, key), 'is not a known configuration key');
+    }
+}
+
+function matchesType(value: unknown, type: ConfigFieldType): boolean {
+    switch (type) {
+        case 'any': return true;
+        case 'array': return Array.isArray(value);
+        case 'object': return isPlainObject(value);
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number' && !isNaN(value);
+        default: return typeof value === type;
+    }
+}
+
+function describeType(value: unknown): string {
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+}
+
+function formatIssue(issue: ConfigIssue): string {
+    return `  ${issue.path} ${issue.message}` + (issue.source ? ` (from ${issue.source})` : '');
+}
+
+/**
+ * Determines whether a value is a plain object, as opposed to an array, null or a class instance.
+ * @param {unknown} value - The value to test.
+ * @returns {boolean} True for plain objects.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null)
+        return false;
+
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,106 @@
+﻿type csvOptions = {
+    /** The character separating fields. */
+    delimiter: string,
+
+    /** The line ending used when writing. */
+    newline: '\n' | '\r\n',
+}
+
+const defaultCsvOptions: csvOptions = {
+    delimiter: ',',
+    newline: '\n'
+};
+
+/**
+ * Parses CSV text into rows of fields. Follows RFC 4180: fields may be quoted with `"`,
+ * quotes inside quoted fields are doubled, and quoted fields may contain delimiters and line breaks.
+ * @param {string} content - The CSV text.
+ * @param {Partial<csvOptions>} [options] - Options of the format.
+ * @param {string} [options.delimiter] - The character separating fields (default is `,`).
+ * @returns {string[][]} The rows; a trailing line break does not produce an empty row.
+ * @throws {Error} If a quoted field is not terminated.
+ */
+export function parseCsv(content: string, options?: Partial<csvOptions>): string[][] {
+    const { delimiter } = { ...defaultCsvOptions, ...options };
+    const text = content.replace(/^\uFEFF/, '');
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let quoteLine = 1;
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+
+        if (quoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === '\n')
+                    line++;
+
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+            quoteLine = line;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[index + 1] === '\n')
+                index++;
+
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+            line++;
+        } else {
+            field += char;
+        }
+    }
+
+    if (quoted) {
+        throw new Error(`Unterminated quoted CSV field starting at line ${quoteLine}`);
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+/**
+ * Formats rows of values as CSV text. Fields containing the delimiter, quotes, line breaks
+ * or surrounding whitespace are quoted; `null` and `undefined` become empty fields.
+ * @param {unknown[][]} rows - The rows to format.
+ * @param {Partial<csvOptions>} [options] - Options of the format.
+ * @param {string} [options.delimiter] - The character separating fields (default is `,`).
+ * @param {string} [options.newline] - The line ending (default is `\n`).
+ * @returns {string} The CSV text, ending with a line break.
+ */
+export function formatCsv(rows: unknown[][], options?: Partial<csvOptions>): string {
+    const { delimiter, newline } = { ...defaultCsvOptions, ...options };
+
+    return rows.map((row) => row.map((value) => formatField(value, delimiter)).join(delimiter) + newline).join('');
+}
+
+function formatField(value: unknown, delimiter: string): string {
+    if (value === null || value === undefined)
+        return '';
+
+    const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+    if (text.includes(delimiter) || /["\r\n]/.test(text) || text.trim() !== text)
+        return `"${text.replace(/"/g, '""')}"`;
+
+    return text;
+}
@@ -0,0 +1,145 @@
+﻿import { promises as fs } from 'fs';
+import path from 'path';
+
+import { globsToRegExps } from './glob';
+
+
+type listOptions = {
+    /** Whether subdirectories are descended into. */
+    recursive: boolean,
+
+    /** Glob patterns the path relative to the listed directory has to match, see `globToRegExp`. */
+    include?: string | string[],
+
+    /** Glob patterns excluding matching paths; an excluded directory is not descended into. */
+    exclude?: string | string[],
+
+    /** Whether directories are listed in addition to files. */
+    directories: boolean,
+}
+
+/**
+ * A utility class for directory operations.
+ */
+export class IODirectory {
+    private static readonly defaultListOptions: listOptions = {
+        recursive: false,
+        directories: false
+    }
+
+    /**
+     * Creates a directory along with any missing parents. Does nothing if it already exists.
+     * @param {string} dirPath - The path of the directory.
+     * @returns {Promise<void>} A promise that resolves when the directory exists.
+     */
+    static async ensure(dirPath: string): Promise<void> {
+        await fs.mkdir(dirPath, { recursive: true });
+    }
+
+    /**
+     * Checks if a directory exists at the specified path.
+     * @param {string} dirPath - The path of the directory to check.
+     * @returns {Promise<boolean>} A promise that resolves to true if a directory exists there, otherwise false.
+     */
+    static async exists(dirPath: string): Promise<boolean> {
+        try {
+            return (await fs.stat(dirPath)).isDirectory();
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Lazily walks the entries of a directory, depth first.
+     * @param {string} dirPath - The path of the directory.
+     * @param {Partial<listOptions>} [options] - Options of the walk.
+     * @param {boolean} [options.recursive] - Whether subdirectories are descended into (default is false).
+     * @param {string | string[]} [options.include] - Glob patterns the relative path has to match (default matches everything).
+     * @param {string | string[]} [options.exclude] - Glob patterns excluding matching paths and the contents of matching directories.
+     * @param {boolean} [options.directories] - Whether directories are yielded in addition to files (default is false).
+     * @returns {AsyncIterable<string>} The paths of the entries, joined to `dirPath`.
+     */
+    static async *walk(dirPath: string, options?: Partial<listOptions>): AsyncIterable<string> {
+        const settings = { ...IODirectory.defaultListOptions, ...options };
+        const include = globsToRegExps(settings.include);
+        const exclude = globsToRegExps(settings.exclude);
+
+        const visit = async function* (relative: string): AsyncIterable<string> {
+            const entries = await fs.readdir(path.join(dirPath, relative), { withFileTypes: true });
+            entries.sort((a, b) => a.name.localeCompare(b.name));
+
+            for (const entry of entries) {
+                const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+
+                if (exclude.some((pattern) => pattern.test(entryPath)))
+                    continue;
+
+                const included = include.length === 0 || include.some((pattern) => pattern.test(entryPath));
+
+                if (entry.isDirectory()) {
+                    if (settings.directories && included)
+                        yield path.join(dirPath, entryPath);
+
+                    if (settings.recursive)
+                        yield* visit(entryPath);
+                } else if (included) {
+                    yield path.join(dirPath, entryPath);
+                }
+            }
+        };
+
+        yield* visit('');
+    }
+
+    /**
+     * Lists the entries of a directory.
+     * @param {string} dirPath - The path of the directory.
+     * @param {Partial<listOptions>} [options] - Options of the listing, see `walk`.
+     * @returns {Promise<string[]>} The paths of the entries, joined to `dirPath`.
+     */
+    static async list(dirPath: string, options?: Partial<listOptions>): Promise<string[]> {
+        const result: string[] = [];
+
+        for await (const entry of IODirectory.walk(dirPath, options))
+            result.push(entry);
+
+        return result;
+    }
+
+    /**
+     * Copies a directory with all its contents. Existing files at the destination are overwritten.
+     * @param {string} source - The path of the directory to copy.
+     * @param {string} destination - The path where the directory will be copied to.
+     * @returns {Promise<void>} A promise that resolves when the copy operation is complete.
+     */
+    static async copy(source: string, destination: string): Promise<void> {
+        await fs.cp(source, destination, { recursive: true, force: true });
+    }
+
+    /**
+     * Moves a directory with all its contents, falling back to copy and remove across devices.
+     * @param {string} source - The path of the directory to move.
+     * @param {string} destination - The new path of the directory.
+     * @returns {Promise<void>} A promise that resolves when the move operation is complete.
+     */
+    static async move(source: string, destination: string): Promise<void> {
+        try {
+            await fs.rename(source, destination);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EXDEV')
+                throw error;
+
+            await IODirectory.copy(source, destination);
+            await IODirectory.remove(source);
+        }
+    }
+
+    /**
+     * Removes a directory with all its contents. Does nothing if it does not exist.
+     * @param {string} dirPath - The path of the directory to remove.
+     * @returns {Promise<void>} A promise that resolves when the directory is gone.
+     */
+    static async remove(dirPath: string): Promise<void> {
+        await fs.rm(dirPath, { recursive: true, force: true });
+    }
+}
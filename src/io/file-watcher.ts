@@ -0,0 +1,394 @@
+﻿import { FSWatcher, Stats, promises as fs, watch } from 'fs';
+import path from 'path';
+
+import { ServiceLogger, TimeSpan } from 'dash-core';
+import { IODirectory } from './directory';
+import { globsToRegExps } from './glob';
+
+
+export enum FileChangeType {
+    ADD = 'add',
+    CHANGE = 'change',
+    UNLINK = 'unlink'
+}
+
+/** A change of a watched file, after debouncing. */
+export type FileChangeEvent = {
+    type: FileChangeType,
+
+    /** The absolute path of the file. */
+    path: string
+}
+
+type fileWatcherOptions = {
+    /** Whether subdirectories of watched directories are watched too. */
+    recursive: boolean,
+
+    /** Glob patterns the path relative to a watched directory has to match, see `globToRegExp`. */
+    include?: string | string[],
+
+    /** Glob patterns excluding matching paths and everything below matching directories. */
+    exclude?: string | string[],
+
+    /** How long the file system has to be quiet before changes are reported. */
+    debounce: TimeSpan,
+
+    /** Whether the file system is polled instead of watched natively. */
+    polling: boolean,
+
+    /** How often the file system is polled when native watching is off or unavailable. */
+    pollInterval: TimeSpan,
+
+    /** Optional logger for watcher failures. */
+    logger?: ServiceLogger,
+}
+
+type fileState = {
+    size: number,
+    modified: number
+}
+
+/**
+ * Watches files and directories and reports debounced `add`, `change` and `unlink` events.
+ * Raw notifications only mark paths as dirty; after a quiet period the dirty paths are compared with a snapshot,
+ * so a burst of notifications for a file collapses into the one event that describes its net change.
+ * Falls back to polling when native watching fails.
+ */
+export class FileWatcher implements AsyncIterable<FileChangeEvent> {
+    private readonly options: fileWatcherOptions;
+    private readonly roots = new Map<string, boolean>();
+    private readonly include: RegExp[];
+    private readonly exclude: RegExp[];
+
+    private readonly files = new Map<string, fileState>();
+    private readonly dirty = new Set<string>();
+    private readonly listeners = new Set<(event: FileChangeEvent) => void>();
+    private readonly errorListeners = new Set<(error: unknown) => void>();
+    private readonly queue: FileChangeEvent[] = [];
+    private readonly waiters: ((result: IteratorResult<FileChangeEvent>) => void)[] = [];
+
+    private watchers: FSWatcher[] = [];
+    private pollTimer?: NodeJS.Timeout;
+    private debounceTimer?: NodeJS.Timeout;
+    private flushing: Promise<void> = Promise.resolve();
+    private iterating: boolean = false;
+    private closed: boolean = false;
+
+    private readonly defaultOptions: fileWatcherOptions = {
+        recursive: false,
+        debounce: TimeSpan.fromMilliseconds(100),
+        polling: false,
+        pollInterval: TimeSpan.fromSeconds(1)
+    }
+
+    /**
+     * Creates an instance of the FileWatcher class. Call `start` to begin watching.
+     * @param {string | string[]} paths - The files or directories to watch. Files that do not exist yet are reported when created.
+     * @param {Partial<fileWatcherOptions>} [options] - Configuration options for the watcher.
+     * @param {boolean} [options.recursive] - Whether subdirectories are watched too (default is false).
+     * @param {string | string[]} [options.include] - Glob patterns the path relative to a watched directory has to match.
+     * @param {string | string[]} [options.exclude] - Glob patterns excluding matching paths.
+     * @param {TimeSpan} [options.debounce] - How long the file system has to be quiet before changes are reported (default is 100 milliseconds).
+     * @param {boolean} [options.polling] - Whether the file system is polled instead of watched natively (default is false).
+     * @param {TimeSpan} [options.pollInterval] - How often the file system is polled (default is 1 second).
+     * @param {ServiceLogger} [options.logger] - Optional logger for watcher failures.
+     */
+    constructor(paths: string | string[], options?: Partial<fileWatcherOptions>) {
+        this.options = { ...this.defaultOptions, ...options };
+        this.include = globsToRegExps(this.options.include);
+        this.exclude = globsToRegExps(this.options.exclude);
+
+        for (const item of Array.isArray(paths) ? paths : [paths])
+            this.roots.set(path.resolve(item), false);
+    }
+
+    /** Gets whether the file system is polled rather than watched natively. */
+    get isPolling(): boolean {
+        return this.pollTimer !== undefined;
+    }
+
+    /**
+     * Takes a snapshot of the watched files and starts watching. Files present at this point are not reported as added.
+     * @returns {Promise<void>} A promise that resolves once changes are being tracked.
+     */
+    public async start(): Promise<void> {
+        if (this.closed) {
+            throw new Error('The file watcher has been closed');
+        }
+
+        for (const root of this.roots.keys())
+            this.roots.set(root, await IODirectory.exists(root));
+
+        for (const root of this.roots.keys()) {
+            for (const [file, state] of await this.collect(root))
+                this.files.set(file, state);
+        }
+
+        if (this.options.polling) {
+            this.startPolling();
+            return;
+        }
+
+        try {
+            this.watchNatively();
+        } catch (error) {
+            this.fallBackToPolling(error);
+        }
+    }
+
+    /**
+     * Subscribes to file changes.
+     * @param {(event: FileChangeEvent) => void} listener - Invoked for every change.
+     * @returns {() => void} A function that removes the listener.
+     */
+    public onChange(listener: (event: FileChangeEvent) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Subscribes to errors raised while inspecting changed files.
+     * @param {(error: unknown) => void} listener - Invoked with the error.
+     * @returns {() => void} A function that removes the listener.
+     */
+    public onError(listener: (error: unknown) => void): () => void {
+        this.errorListeners.add(listener);
+        return () => this.errorListeners.delete(listener);
+    }
+
+    /**
+     * Stops watching. Pending changes are dropped and running iterations end.
+     */
+    public close(): void {
+        this.closed = true;
+
+        clearTimeout(this.debounceTimer);
+        clearInterval(this.pollTimer);
+        this.pollTimer = undefined;
+
+        for (const watcher of this.watchers)
+            watcher.close();
+
+        this.watchers = [];
+
+        for (const waiter of this.waiters.splice(0))
+            waiter({ done: true, value: undefined });
+    }
+
+    /**
+     * Iterates over file changes until the watcher is closed. Changes are buffered from the first iteration on.
+     */
+    [Symbol.asyncIterator](): AsyncIterator<FileChangeEvent> {
+        this.iterating = true;
+
+        return {
+            next: () => {
+                const event = this.queue.shift();
+
+                if (event)
+                    return Promise.resolve({ done: false, value: event });
+
+                if (this.closed)
+                    return Promise.resolve({ done: true, value: undefined });
+
+                return new Promise((resolve) => this.waiters.push(resolve));
+            },
+            return: async () => {
+                // Leaving a loop stops buffering but keeps the watcher and its listeners running
+                this.iterating = false;
+                this.queue.length = 0;
+                return { done: true, value: undefined };
+            }
+        };
+    }
+
+    private watchNatively(): void {
+        const directories = new Map<string, Set<string>>();
+
+        for (const [root, isDirectory] of this.roots) {
+            if (isDirectory) {
+                const watcher = watch(root, { recursive: this.options.recursive }, (_, fileName) =>
+                    this.markDirty(fileName ? path.join(root, fileName.toString()) : root));
+
+                this.addWatcher(watcher);
+                continue;
+            }
+
+            // Single files are watched through their directory, so replacing or creating them is noticed too
+            const names = directories.get(path.dirname(root)) ?? new Set<string>();
+            directories.set(path.dirname(root), names.add(path.basename(root)));
+        }
+
+        for (const [directory, names] of directories) {
+            const watcher = watch(directory, (_, fileName) => {
+                if (!fileName || names.has(fileName.toString()))
+                    names.forEach((name) => this.markDirty(path.join(directory, name)));
+            });
+
+            this.addWatcher(watcher);
+        }
+    }
+
+    private addWatcher(watcher: FSWatcher): void {
+        watcher.on('error', (error) => this.fallBackToPolling(error));
+        this.watchers.push(watcher);
+    }
+
+    private fallBackToPolling(error: unknown): void {
+        if (this.closed || this.isPolling)
+            return;
+
+        this.options.logger?.warning(`Native file watching failed, falling back to polling: ${error instanceof Error ? error.message : String(error)}`);
+
+        for (const watcher of this.watchers)
+            watcher.close();
+
+        this.watchers = [];
+        this.startPolling();
+    }
+
+    private startPolling(): void {
+        this.pollTimer = setInterval(() => {
+            for (const root of this.roots.keys())
+                this.dirty.add(root);
+
+            this.flush();
+        }, this.options.pollInterval.totalMilliseconds);
+    }
+
+    private markDirty(filePath: string): void {
+        if (this.closed)
+            return;
+
+        this.dirty.add(filePath);
+
+        clearTimeout(this.debounceTimer);
+        this.debounceTimer = setTimeout(() => this.flush(), this.options.debounce.totalMilliseconds);
+    }
+
+    private flush(): void {
+        const targets = [...this.dirty];
+        this.dirty.clear();
+
+        this.flushing = this.flushing
+            .then(async () => {
+                for (const target of targets) {
+                    if (this.closed)
+                        return;
+
+                    this.diff(target, await this.collect(target));
+                }
+            })
+            .catch((error) => {
+                this.options.logger?.error(`Failed to inspect changed files: ${error instanceof Error ? error.message : String(error)}`);
+
+                for (const listener of this.errorListeners)
+                    listener(error);
+            });
+    }
+
+    /**
+     * Compares the known files at or below `target` with their current state and emits the differences.
+     */
+    private diff(target: string, current: Map<string, fileState>): void {
+        const prefix = target + path.sep;
+
+        for (const file of [...this.files.keys()]) {
+            if ((file === target || file.startsWith(prefix)) && !current.has(file)) {
+                this.files.delete(file);
+                this.emit({ type: FileChangeType.UNLINK, path: file });
+            }
+        }
+
+        for (const [file, state] of current) {
+            const previous = this.files.get(file);
+            this.files.set(file, state);
+
+            if (!previous)
+                this.emit({ type: FileChangeType.ADD, path: file });
+            else if (previous.size !== state.size || previous.modified !== state.modified)
+                this.emit({ type: FileChangeType.CHANGE, path: file });
+        }
+    }
+
+    /**
+     * Reads the current state of the watched files at or below `target`.
+     */
+    private async collect(target: string): Promise<Map<string, fileState>> {
+        const result = new Map<string, fileState>();
+        const stats = await statOrUndefined(target);
+
+        if (stats?.isFile()) {
+            if (this.isWatched(target))
+                result.set(target, toState(stats));
+
+            return result;
+        }
+
+        if (!stats?.isDirectory() || (!this.roots.has(target) && !this.options.recursive))
+            return result;
+
+        for await (const file of IODirectory.walk(target, { recursive: this.options.recursive })) {
+            if (!this.isWatched(file))
+                continue;
+
+            const fileStats = await statOrUndefined(file);
+
+            if (fileStats?.isFile())
+                result.set(file, toState(fileStats));
+        }
+
+        return result;
+    }
+
+    private isWatched(filePath: string): boolean {
+        if (this.roots.has(filePath) && !this.roots.get(filePath))
+            return true;
+
+        for (const [root, isDirectory] of this.roots) {
+            if (!isDirectory || !filePath.startsWith(root + path.sep))
+                continue;
+
+            const relative = path.relative(root, filePath).split(path.sep).join('/');
+            const segments = relative.split('/');
+
+            if (!this.options.recursive && segments.length > 1)
+                continue;
+
+            // Excluding a directory excludes everything below it
+            const excluded = segments.some((_, index) => {
+                const partial = segments.slice(0, index + 1).join('/');
+                return this.exclude.some((pattern) => pattern.test(partial));
+            });
+
+            if (!excluded && (this.include.length === 0 || this.include.some((pattern) => pattern.test(relative))))
+                return true;
+        }
+
+        return false;
+    }
+
+    private emit(event: FileChangeEvent): void {
+        for (const listener of this.listeners)
+            listener(event);
+
+        const waiter = this.waiters.shift();
+
+        if (waiter)
+            waiter({ done: false, value: event });
+        else if (this.iterating)
+            this.queue.push(event);
+    }
+}
+
+async function statOrUndefined(filePath: string): Promise<Stats | undefined> {
+    try {
+        return await fs.stat(filePath);
+    } catch {
+        return undefined;
+    }
+}
+
+function toState(stats: Stats): fileState {
+    return { size: stats.size, modified: stats.mtimeMs };
+}
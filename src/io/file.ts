@@ -1,10 +1,65 @@
-﻿import { promises as fs } from 'fs';
+﻿import { randomBytes } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline';
+
+import { Mutex } from 'dash-core';
+import { ConfigParseError, ConfigParsers } from './config-parsers';
+import { ConfigSchema, ConfigValidationError, validateConfig } from './config-schema';
+import { formatCsv, parseCsv } from './csv';
+
+
+type atomicWriteOptions = {
+    /** The encoding of text content. */
+    encoding: BufferEncoding,
+
+    /** Whether the previous version of the file is kept as `<file>.bak`. */
+    backup: boolean,
+}
+
+type jsonWriteOptions = {
+    /** Whether the JSON is indented with 4 spaces and ends with a line break. */
+    pretty: boolean,
+
+    /** Whether the file is replaced atomically, see `IOFile.writeAtomic`. */
+    atomic: boolean,
+}
+
+type csvReadOptions = {
+    /** The character separating fields. */
+    delimiter: string,
+
+    /** The column names; when not given, the first row is read as the header row. */
+    headers?: string[],
+}
+
+type csvWriteOptions = {
+    /** The character separating fields. */
+    delimiter: string,
+
+    /** The columns written, in order (default is every key of the records, in order of appearance). */
+    headers?: string[],
+
+    /** The line ending. */
+    newline: '\n' | '\r\n',
+}
 
 
 /**
  * A utility class for file operations.
  */
 export class IOFile {
+    private static readonly locks = new Map<string, Mutex>();
+
+    private static readonly defaultAtomicOptions: atomicWriteOptions = {
+        encoding: 'utf-8',
+        backup: false
+    }
+
+    private static readonly defaultJsonOptions: jsonWriteOptions = {
+        pretty: true,
+        atomic: true
+    }
 
     /**
      * Reads the content of a file as a string with the specified encoding.
@@ -52,6 +107,32 @@ export class IOFile {
         await fs.writeFile(filePath, data);
     }
 
+    /**
+     * Writes the provided content to a file atomically: the content is written to a temporary file in the same directory,
+     * flushed to disk and renamed over the target, so readers and crashes see either the old or the new file, never a truncated one.
+     * Atomic writes to the same path within this process are serialized.
+     * @param {string} filePath - The path of the file to write to.
+     * @param {string} content - The content to write to the file.
+     * @param {Partial<atomicWriteOptions>} [options] - Options of the write.
+     * @param {BufferEncoding} [options.encoding] - The encoding to use for writing the file (default is utf-8).
+     * @param {boolean} [options.backup] - Whether the previous version of the file is kept as `<file>.bak` (default is false).
+     * @returns {Promise<void>} A promise that resolves when the new content is in place.
+     */
+    static async writeAtomic(filePath: string, content: string, options?: Partial<atomicWriteOptions>): Promise<void> {
+        await IOFile.replace(filePath, content, { ...IOFile.defaultAtomicOptions, ...options });
+    }
+
+    /**
+     * Writes raw byte data to a file atomically, like `writeAtomic`.
+     * @param {string} filePath - The path of the file to write to.
+     * @param {Buffer} data - The byte data to write to the file.
+     * @param {boolean} [backup=false] - Whether the previous version of the file is kept as `<file>.bak`.
+     * @returns {Promise<void>} A promise that resolves when the new content is in place.
+     */
+    static async writeBytesAtomic(filePath: string, data: Buffer, backup: boolean = false): Promise<void> {
+        await IOFile.replace(filePath, data, { ...IOFile.defaultAtomicOptions, backup });
+    }
+
     /**
      * Appends the provided text content to a file. If the file doesn't exist, it will be created.
      * @param {string} filePath - The path of the file to append content to.
@@ -63,6 +144,187 @@ export class IOFile {
         await fs.appendFile(filePath, content, { encoding });
     }
 
+    /**
+     * Reads a text file line by line without loading it into memory. Removes any BOM (Byte Order Mark) if present.
+     * Both `\n` and `\r\n` line endings are accepted.
+     * @param {string} filePath - The path of the file to read.
+     * @param {BufferEncoding} [encoding='utf-8'] - The encoding to use for reading the file.
+     * @returns {AsyncIterable<string>} The lines of the file, without line endings.
+     */
+    static async *readLines(filePath: string, encoding: BufferEncoding = 'utf-8'): AsyncIterable<string> {
+        const stream = createReadStream(filePath, { encoding });
+        const lines = createInterface({ input: stream, crlfDelay: Infinity });
+
+        try {
+            let first = true;
+
+            for await (const line of lines) {
+                yield first ? line.replace(/^\uFEFF/, '') : line;
+                first = false;
+            }
+        } finally {
+            lines.close();
+            stream.destroy();
+        }
+    }
+
+    /**
+     * Reads a file as a stream of byte chunks without loading it into memory.
+     * @param {string} filePath - The path of the file to read.
+     * @param {number} [chunkSize=65536] - The maximum size of a chunk in bytes.
+     * @returns {AsyncIterable<Buffer>} The chunks of the file, in order.
+     */
+    static async *readChunks(filePath: string, chunkSize: number = 64 * 1024): AsyncIterable<Buffer> {
+        const stream = createReadStream(filePath, { highWaterMark: chunkSize });
+
+        try {
+            for await (const chunk of stream)
+                yield chunk as Buffer;
+        } finally {
+            stream.destroy();
+        }
+    }
+
+    /**
+     * Reads and parses a JSON file. Removes any BOM (Byte Order Mark) if present.
+     * @param {string} filePath - The path of the file to read.
+     * @param {ConfigSchema | ((value: unknown) => boolean)} [validate] - Optional schema or predicate the parsed value has to satisfy.
+     * @returns {Promise<T>} A promise that resolves to the parsed value.
+     * @throws {ConfigParseError} If the file is not valid JSON, with the line and column of the problem.
+     * @throws {ConfigValidationError} If the value does not match the schema.
+     * @template T - The type of the parsed value.
+     */
+    static async readJson<T>(filePath: string, validate?: ConfigSchema | ((value: unknown) => boolean)): Promise<T> {
+        const value = ConfigParsers.parse(await IOFile.read(filePath), filePath, '.json');
+
+        if (typeof validate === 'function') {
+            if (!validate(value)) {
+                throw new Error(`${filePath} does not contain a valid value`);
+            }
+        } else if (validate) {
+            const issues = validateConfig(value, validate, () => filePath);
+
+            if (issues.length > 0)
+                throw new ConfigValidationError(issues);
+        }
+
+        return value as T;
+    }
+
+    /**
+     * Serializes a value as JSON and writes it to a file.
+     * @param {string} filePath - The path of the file to write to.
+     * @param {unknown} value - The value to write.
+     * @param {Partial<jsonWriteOptions>} [options] - Options of the write.
+     * @param {boolean} [options.pretty] - Whether the JSON is indented with 4 spaces (default is true).
+     * @param {boolean} [options.atomic] - Whether the file is replaced atomically (default is true).
+     * @returns {Promise<void>} A promise that resolves when the write operation is complete.
+     */
+    static async writeJson(filePath: string, value: unknown, options?: Partial<jsonWriteOptions>): Promise<void> {
+        const { pretty, atomic } = { ...IOFile.defaultJsonOptions, ...options };
+        const content = pretty ? JSON.stringify(value, null, 4) + '\n' : JSON.stringify(value);
+
+        if (atomic)
+            await IOFile.writeAtomic(filePath, content);
+        else
+            await IOFile.write(filePath, content);
+    }
+
+    /**
+     * Appends values to a newline-delimited JSON (NDJSON) file, one line per value. If the file doesn't exist, it will be created.
+     * @param {string} filePath - The path of the file to append to.
+     * @param {...unknown[]} values - The values to append.
+     * @returns {Promise<void>} A promise that resolves when the append operation is complete.
+     */
+    static async appendNdjson(filePath: string, ...values: unknown[]): Promise<void> {
+        if (values.length === 0)
+            return;
+
+        await IOFile.appendText(filePath, values.map((value) => JSON.stringify(value) + '\n').join(''));
+    }
+
+    /**
+     * Streams the values of a newline-delimited JSON (NDJSON) file without loading it into memory. Blank lines are skipped.
+     * @param {string} filePath - The path of the file to read.
+     * @returns {AsyncIterable<T>} The parsed values, in order.
+     * @throws {ConfigParseError} If a line is not valid JSON, with its line number.
+     * @template T - The type of the values.
+     */
+    static async *readNdjson<T>(filePath: string): AsyncIterable<T> {
+        let lineNumber = 0;
+
+        for await (const line of IOFile.readLines(filePath)) {
+            lineNumber++;
+
+            if (line.trim() === '')
+                continue;
+
+            try {
+                yield JSON.parse(line) as T;
+            } catch (error) {
+                if (!(error instanceof SyntaxError))
+                    throw error;
+
+                throw new ConfigParseError(filePath, error.message, lineNumber);
+            }
+        }
+    }
+
+    /**
+     * Reads a CSV file into records keyed by column name. Removes any BOM (Byte Order Mark) if present.
+     * @param {string} filePath - The path of the file to read.
+     * @param {Partial<csvReadOptions>} [options] - Options of the format.
+     * @param {string} [options.delimiter] - The character separating fields (default is `,`).
+     * @param {string[]} [options.headers] - The column names; when not given, the first row is the header row.
+     * @returns {Promise<Record<string, string>[]>} A promise that resolves to one record per row. Missing fields are empty strings.
+     */
+    static async readCsv(filePath: string, options?: Partial<csvReadOptions>): Promise<Record<string, string>[]> {
+        const rows = parseCsv(await IOFile.read(filePath), options);
+        const headers = options?.headers ?? rows.shift() ?? [];
+
+        return rows
+            .filter((row) => row.length > 1 || row[0] !== '')
+            .map((row) => Object.fromEntries(headers.map((header, index) => [header, row[index] ?? ''])));
+    }
+
+    /**
+     * Writes records to a CSV file with a header row. Fields are quoted and escaped as needed.
+     * If the file already exists, it will be overwritten.
+     * @param {string} filePath - The path of the file to write to.
+     * @param {Record<string, unknown>[]} records - The records to write, one row each.
+     * @param {Partial<csvWriteOptions>} [options] - Options of the format.
+     * @param {string} [options.delimiter] - The character separating fields (default is `,`).
+     * @param {string[]} [options.headers] - The columns written, in order (default is every key of the records).
+     * @param {string} [options.newline] - The line ending (default is `\n`).
+     * @returns {Promise<void>} A promise that resolves when the write operation is complete.
+     */
+    static async writeCsv(filePath: string, records: Record<string, unknown>[], options?: Partial<csvWriteOptions>): Promise<void> {
+        const headers = options?.headers ?? [...new Set(records.flatMap((record) => Object.keys(record)))];
+        const rows = [headers, ...records.map((record) => headers.map((header) => record[header]))];
+
+        await IOFile.write(filePath, formatCsv(rows, options));
+    }
+
+    /**
+     * Gets information about a file or directory.
+     * @param {string} filePath - The path of the file or directory.
+     * @returns {Promise<FileInfo>} A promise that resolves to the size, kind and timestamps of the entry.
+     */
+    static async stat(filePath: string): Promise<FileInfo> {
+        const [stats, link] = await Promise.all([fs.stat(filePath), fs.lstat(filePath)]);
+
+        return {
+            path: path.resolve(filePath),
+            size: stats.size,
+            isFile: stats.isFile(),
+            isDirectory: stats.isDirectory(),
+            isSymbolicLink: link.isSymbolicLink(),
+            createdAt: stats.birthtime,
+            modifiedAt: stats.mtime,
+            accessedAt: stats.atime
+        };
+    }
+
     /**
      * Checks if a file exists at the specified path.
      * @param {string} filePath - The path of the file to check.
@@ -95,4 +357,105 @@ export class IOFile {
     static async copy(source: string, destination: string): Promise<void> {
         await fs.copyFile(source, destination);
     }
+
+    /**
+     * Moves a file from the source path to the destination path, falling back to copy and delete across devices.
+     * If a file already exists at the destination, it will be overwritten.
+     * @param {string} source - The path of the file to move.
+     * @param {string} destination - The new path of the file.
+     * @returns {Promise<void>} A promise that resolves when the move operation is complete.
+     */
+    static async move(source: string, destination: string): Promise<void> {
+        try {
+            await fs.rename(source, destination);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EXDEV')
+                throw error;
+
+            await fs.copyFile(source, destination);
+            await fs.unlink(source);
+        }
+    }
+
+    private static async replace(filePath: string, data: string | Buffer, options: atomicWriteOptions): Promise<void> {
+        const target = path.resolve(filePath);
+        const directory = path.dirname(target);
+
+        await IOFile.withLock(target, async () => {
+            const previous = await fs.stat(target).catch(() => undefined);
+            const temporary = path.join(directory, `.${path.basename(target)}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`);
+
+            try {
+                const handle = await fs.open(temporary, 'wx', previous?.mode);
+
+                try {
+                    await handle.writeFile(data, { encoding: options.encoding });
+                    await handle.sync();
+                } finally {
+                    await handle.close();
+                }
+
+                if (options.backup && previous)
+                    await fs.copyFile(target, `${target}.bak`);
+
+                await fs.rename(temporary, target);
+            } catch (error) {
+                await fs.rm(temporary, { force: true });
+                throw error;
+            }
+
+            await syncDirectory(directory);
+        });
+    }
+
+    private static async withLock(filePath: string, callback: () => Promise<void>): Promise<void> {
+        let lock = IOFile.locks.get(filePath);
+
+        if (!lock) {
+            lock = new Mutex();
+            IOFile.locks.set(filePath, lock);
+        }
+
+        try {
+            await lock.runExclusive(callback);
+        } finally {
+            if (!lock.isLocked && lock.waiting === 0)
+                IOFile.locks.delete(filePath);
+        }
+    }
+}
+
+/**
+ * Flushes a directory entry so a rename survives a crash. Not every platform can open directories; there it is skipped.
+ */
+async function syncDirectory(directory: string): Promise<void> {
+    let handle: fs.FileHandle | undefined;
+
+    try {
+        handle = await fs.open(directory, 'r');
+        await handle.sync();
+    } catch {
+        // Windows does not support syncing directories
+    } finally {
+        await handle?.close();
+    }
+}
+
+/** Information about a file or directory. */
+export type FileInfo = {
+    /** The absolute path of the entry. */
+    path: string,
+
+    /** The size in bytes. */
+    size: number,
+
+    isFile: boolean,
+    isDirectory: boolean,
+
+    /** Whether the path itself is a symbolic link; the other values describe its target. */
+    isSymbolicLink: boolean,
+
+    createdAt: Date,
+    modifiedAt: Date,
+    accessedAt: Date
 }
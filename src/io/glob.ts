@@ -0,0 +1,85 @@
+﻿/**
+ * Converts a glob pattern into a regular expression matching `/`-separated relative paths.
+ * Supports `*` (any characters but `/`), `**` (any number of directories), `?`, `[abc]` classes and `{a,b}` alternatives.
+ * Patterns without a `/` match the file name at any depth, so `*.log` matches `logs/app.log`.
+ * @param {string} pattern - The glob pattern.
+ * @returns {RegExp} The equivalent regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+    const source = normalized.includes('/') ? normalized : `**/${normalized}`;
+
+    let result = '';
+    let braces = 0;
+
+    for (let index = 0; index < source.length; index++) {
+        const char = source[index];
+
+        switch (char) {
+            case '*':
+                if (source[index + 1] === '*') {
+                    // `**/` also matches no directory at all
+                    const slash = source[index + 2] === '/';
+                    result += slash ? '(?:.*/)?' : '.*';
+                    index += slash ? 2 : 1;
+                } else {
+                    result += '[^/]*';
+                }
+                break;
+            case '?':
+                result += '[^/]';
+                break;
+            case '[': {
+                const end = source.indexOf(']', index + 1);
+
+                if (end < 0) {
+                    result += '\\[';
+                    break;
+                }
+
+                const body = source.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+                result += `[${body}]`;
+                index = end;
+                break;
+            }
+            case '{':
+                braces++;
+                result += '(?:';
+                break;
+            case '}':
+                result += braces > 0 ? ')' : '\\}';
+                braces = Math.max(0, braces - 1);
+                break;
+            case ',':
+                result += braces > 0 ? '|' : ',';
+                break;
+            default:
+                result += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${result}$`);
+}
+
+/**
+ * Converts one or more glob patterns into regular expressions, see `globToRegExp`.
+ * @param {string | string[]} [patterns] - The glob patterns.
+ * @returns {RegExp[]} The regular expressions; empty if no patterns are given.
+ */
+export function globsToRegExps(patterns?: string | string[]): RegExp[] {
+    if (patterns === undefined)
+        return [];
+
+    return (Array.isArray(patterns) ? patterns : [patterns]).map(globToRegExp);
+}
+
+/**
+ * Determines whether a relative path matches any of the glob patterns.
+ * @param {string} relativePath - The path to test; `\` separators are accepted.
+ * @param {string | string[]} patterns - One or more glob patterns, see `globToRegExp`.
+ * @returns {boolean} True if at least one pattern matches.
+ */
+export function matchesGlob(relativePath: string, patterns: string | string[]): boolean {
+    const normalized = relativePath.replace(/\\/g, '/');
+    return globsToRegExps(patterns).some((pattern) => pattern.test(normalized));
+}
@@ -1,2 +1,9 @@
-﻿export * from './config-reader';
+﻿export * from './config-parsers';
+export * from './config-reader';
+export * from './config-schema';
+export * from './csv';
+export * from './directory';
 export * from './file';
+export * from './file-watcher';
+export * from './glob';
+export * from './live-config';
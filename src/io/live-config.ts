@@ -0,0 +1,152 @@
+﻿import { ServiceLogger } from 'dash-core';
+import { isPlainObject } from './config-schema';
+import { FileWatcher } from './file-watcher';
+
+
+/** Describes a configuration swap. */
+export type ConfigChangeEvent<TConfig> = {
+    /** The configuration before the reload. */
+    previous: TConfig,
+
+    /** The configuration now in effect. */
+    current: TConfig,
+
+    /** The dotted paths of every key that was added, removed or changed, e.g. `database.port`. */
+    changedKeys: string[]
+}
+
+/** Receives configuration swaps. */
+export type ConfigChangeListener<TConfig> = (event: ConfigChangeEvent<TConfig>) => void;
+
+/** Receives reloads that were rejected, e.g. because the new configuration failed validation. */
+export type ConfigErrorListener = (error: unknown) => void;
+
+/**
+ * A configuration that follows its files. Changes are debounced, re-read and validated by the loader;
+ * a version that fails to load is rejected and the last good configuration stays in effect.
+ */
+export class LiveConfig<TConfig> {
+    private config: TConfig;
+    private reloading: Promise<void> = Promise.resolve();
+
+    private readonly changeListeners = new Set<ConfigChangeListener<TConfig>>();
+    private readonly errorListeners = new Set<ConfigErrorListener>();
+
+    /**
+     * Creates a LiveConfig that reloads on every change reported by the watcher.
+     * @param {TConfig} initial - The configuration in effect until the first reload.
+     * @param {() => Promise<TConfig>} loader - Reads and validates the configuration; throws to reject a version.
+     * @param {FileWatcher} watcher - Watches the configuration files and debounces their changes. It is closed with the LiveConfig.
+     * @param {ServiceLogger} [logger] - Optional logger recording reloads and rejections.
+     */
+    constructor(
+        initial: TConfig,
+        private readonly loader: () => Promise<TConfig>,
+        private readonly watcher: FileWatcher,
+        private readonly logger?: ServiceLogger) {
+        this.config = initial;
+        this.watcher.onChange(() => {
+            this.reload().catch((error) => this.logger?.error(`Configuration reload failed: ${describeError(error)}`));
+        });
+    }
+
+    /** Gets the configuration currently in effect. */
+    get current(): TConfig {
+        return this.config;
+    }
+
+    /**
+     * Subscribes to configuration swaps.
+     * @param {ConfigChangeListener<TConfig>} listener - Invoked after a changed configuration was swapped in.
+     * @returns {() => void} A function that removes the listener.
+     */
+    public onChange(listener: ConfigChangeListener<TConfig>): () => void {
+        this.changeListeners.add(listener);
+        return () => this.changeListeners.delete(listener);
+    }
+
+    /**
+     * Subscribes to rejected reloads.
+     * @param {ConfigErrorListener} listener - Invoked with the error of a reload that was rejected.
+     * @returns {() => void} A function that removes the listener.
+     */
+    public onError(listener: ConfigErrorListener): () => void {
+        this.errorListeners.add(listener);
+        return () => this.errorListeners.delete(listener);
+    }
+
+    /**
+     * Reloads the configuration right away. Reloads never overlap; a call during a reload runs after it.
+     * A listener that throws is logged and does not affect the reload or the other listeners.
+     * @returns {Promise<boolean>} True if the new version was accepted, false if it was rejected.
+     */
+    public reload(): Promise<boolean> {
+        const task = this.reloading.then(() => this.load());
+        this.reloading = task.then(() => undefined, () => undefined);
+
+        return task;
+    }
+
+    /**
+     * Stops watching the files. The last configuration stays available.
+     */
+    public close(): void {
+        this.watcher.close();
+    }
+
+    private async load(): Promise<boolean> {
+        let next: TConfig;
+
+        try {
+            next = await this.loader();
+        } catch (error) {
+            this.logger?.warning(`Configuration reload rejected, keeping the last good configuration: ${describeError(error)}`);
+
+            for (const listener of this.errorListeners)
+                this.notify(() => listener(error));
+
+            return false;
+        }
+
+        const changedKeys = diffKeys(this.config, next);
+
+        if (changedKeys.length === 0) {
+            this.logger?.debug('Configuration reloaded without changes');
+            return true;
+        }
+
+        const previous = this.config;
+        this.config = next;
+
+        this.logger?.info(`Configuration reloaded, changed keys: ${changedKeys.join(', ')}`);
+
+        for (const listener of this.changeListeners)
+            this.notify(() => listener({ previous, current: next, changedKeys }));
+
+        return true;
+    }
+
+    private notify(call: () => void): void {
+        try {
+            call();
+        } catch (error) {
+            this.logger?.error(`Configuration listener failed: ${describeError(error)}`);
+        }
+    }
+}
+
+/**
+ * Lists the dotted paths of every leaf that differs between two configurations. Arrays are compared as a whole.
+ */
+function diffKeys(previous: unknown, current: unknown, prefix: string = ''): string[] {
+    if (!isPlainObject(previous) || !isPlainObject(current))
+        return JSON.stringify(previous) === JSON.stringify(current) ? [] : [prefix];
+
+    const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+
+    return [...keys].flatMap((key) => diffKeys(previous[key], current[key], prefix ? `${prefix}.${key}` : key));
+}
+
+function describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
@@ -1,4 +1,4 @@
-import { TimeSpan, ServiceLogger, Wait } from 'dash-core';
+import { CancellationError, CancellationToken, CancellationTokenSource, MetricsRegistry, TimeSpan, ServiceLogger, Wait } from 'dash-core';
 
 
 type pollerOptions = {
@@ -19,6 +19,12 @@ type pollerOptions = {
 
     /** Optional logger for logging events during polling. */
     logger?: ServiceLogger,
+
+    /** Optional registry recording the current delay and the outcome of every cycle. */
+    metrics?: MetricsRegistry,
+
+    /** The `poller` label of the metrics. */
+    name?: string,
 }
 
 /**
@@ -27,8 +33,10 @@ type pollerOptions = {
 export class AdaptivePoller {
     private task?: Promise<void>;
     private polling: boolean = false;
+    private cancellation?: CancellationTokenSource;
+    private unregisterCancellation?: () => void;
 
-    private operation?: (() => Promise<void>);
+    private operation?: ((cancellationToken: CancellationToken) => Promise<void>);
     private onError?: ((error: Error) => void);
     private onFail?: ((error: Error) => void);
 
@@ -59,54 +67,89 @@ export class AdaptivePoller {
      * @param {TimeSpan} options.resetPeriod - The period after which the delay will reset to the initial value if no errors occur.
      * @param {TimeSpan} options.linearStep - The step used to decrease the delay linearly on success.
      * @param {ServiceLogger} [options.logger] - Optional logger to log events during polling.
+     * @param {MetricsRegistry} [options.metrics] - Optional registry recording the current delay in `adaptive_poller_delay_seconds`
+     *      and the outcome of every cycle in `adaptive_poller_cycles_total`.
+     * @param {string} [options.name] - The `poller` label of the metrics (default is "default").
      */
     constructor(options?: Partial<pollerOptions>) {
         this.options = { ...this.defaultOptions, ...options };
     }
 
     /**
-     * Starts the polling process, which continues until explicitly stopped.
-     * @param {() => Promise<void>} operation - The operation to perform during each poll cycle.
+     * Starts the polling process, which continues until explicitly stopped or the token is canceled.
+     * @param {(cancellationToken: CancellationToken) => Promise<void>} operation - The operation to perform during each poll cycle.
      * @param {(error: Error) => void} onError - Optional callback to handle errors during polling.
      * @param {(error: Error) => void} onFail - Optional callback to handle failure events (when the interval exceeds maxDelay).
+     * @param {CancellationToken} [cancellationToken] - Optional token that stops polling once canceled. Polling does not start if it already is.
      */
-    public start(operation: () => Promise<void>, onError?: (error: Error) => void, onFail?: (error: Error) => void) {
+    public start(operation: (cancellationToken: CancellationToken) => Promise<void>, onError?: (error: Error) => void, onFail?: (error: Error) => void, cancellationToken?: CancellationToken) {
         if (this.isPolling) {
             this.options.logger?.warning('AdaptivePolling is already running, stopping the previous task before starting a new one');
             return;
         }
 
+        if (cancellationToken?.isCancellationRequested)
+            return;
+
         this.polling = true;
 
         this.operation = operation;
         this.onError = onError;
         this.onFail = onFail;
 
-        this.task = this.runPoll();
+        this.cancellation = CancellationTokenSource.createLinked(cancellationToken);
+        this.unregisterCancellation = cancellationToken?.register(() => void this.stop());
+
+        this.task = this.runPoll(this.cancellation.token);
 
         this.options.logger?.info('AdaptivePolling started');
     }
 
     /**
-     * Stops the polling process.
+     * Stops the polling process. A pending delay between cycles is interrupted immediately,
+     * and the operation in progress receives a canceled token.
+     * @param {CancellationToken} [cancellationToken] - Optional token that stops waiting for the operation in progress.
+     *      Once canceled, the returned promise rejects with a `CancellationError`.
      */
-    public async stop() {
+    public async stop(cancellationToken?: CancellationToken) {
         if (!this.isPolling) {
             return;
         }
 
         this.polling = false;
 
+        this.unregisterCancellation?.();
+        this.unregisterCancellation = undefined;
+
+        this.cancellation?.cancel();
+        this.cancellation = undefined;
+
         if (this.task) {
             const task = this.task;
             this.task = undefined;
-            await task;
+
+            if (!cancellationToken) {
+                await task;
+            } else {
+                let unregister = () => { };
+
+                try {
+                    await Promise.race([
+                        task,
+                        new Promise<void>((_, reject) => {
+                            unregister = cancellationToken.register(() => reject(new CancellationError()));
+                        })
+                    ]);
+                } finally {
+                    unregister();
+                }
+            }
         }
 
         this.options.logger?.info('AdaptivePolling stopped');
     }
 
-    private async runPoll(): Promise<void> {
+    private async runPoll(cancellationToken: CancellationToken): Promise<void> {
         if (!this.isPolling || !this.operation) {
             this.options.logger?.warning('AdaptivePolling runPoll called while not polling or operation is not set');
             this.stop();
@@ -116,12 +159,18 @@ export class AdaptivePoller {
         let currentDelay = this.options.initialDelay.totalMilliseconds;
         let lastErrorTime = 0;
 
+        const poller = this.options.name ?? 'default';
+        const cycles = this.options.metrics?.counter('adaptive_poller_cycles_total', 'Poll cycles by outcome', ['poller', 'outcome']);
+        const delay = this.options.metrics?.gauge('adaptive_poller_delay_seconds', 'The current delay between poll cycles', ['poller']);
+
         while (this.isPolling) {
             try {
-                await this.operation();
+                await this.operation(cancellationToken);
 
                 if (!this.isPolling) return;
 
+                cycles?.inc({ poller, outcome: 'success' });
+
                 const now = Date.now();
 
                 // Reset the delay if no error occurred within the reset period
@@ -132,6 +181,10 @@ export class AdaptivePoller {
                     currentDelay = Math.max(initialDelay, linearDifference);
                 }
             } catch (error) {
+                if (cancellationToken.isCancellationRequested) return;
+
+                cycles?.inc({ poller, outcome: 'error' });
+
                 lastErrorTime = Date.now();
                 currentDelay = currentDelay * this.options.factor;
 
@@ -145,8 +198,14 @@ export class AdaptivePoller {
                     // If an error occurred but delay is still within max, trigger the onError callback
                     this.onError?.(resultError);
                 }
-            } finally {
-                await Wait(TimeSpan.fromMilliseconds(currentDelay));
+            }
+
+            delay?.set(currentDelay / 1000, { poller });
+
+            try {
+                await Wait(TimeSpan.fromMilliseconds(currentDelay), cancellationToken);
+            } catch {
+                return;
             }
         }
     }
@@ -1,10 +1,14 @@
-﻿import { TimeSpan, Wait } from 'dash-core';
+﻿import { TimeSpan } from 'dash-core';
+import { ExponentialDelay } from './delay-strategy';
+import { RetryPolicy, RetryPolicyOptions } from './retry-policy';
 
 
 /**
  * Implements exponential backoff with optional jitter for retrying operations.
+ * The operation is attempted once per delay up to the maximum delay, e.g. 3 times for 5, 10 and 20 seconds with a maximum of 30 seconds,
+ * unless `maxAttempts` says otherwise. Unlike earlier versions, there is no wait after the final failed attempt.
  */
-export class ExponentialBackoff {
+export class ExponentialBackoff extends RetryPolicy {
     /**
      * Creates an instance of the ExponentialBackoff class with the specified options.
      * @param {ExponentialBackoffOptions} options - Configuration options for the backoff mechanism.
@@ -12,53 +16,26 @@ export class ExponentialBackoff {
      * @param {TimeSpan} options.maxDelay - The maximum delay allowed between retries.
      * @param {number} options.factor - The factor by which the delay increases after each failure.
      * @param {TimeSpan} [options.jitter] - An optional jitter value that is added randomly to the delay (optional).
+     * @param {Omit<RetryPolicyOptions, 'strategy'>} [policy] - Optional attempt limit, time budget, error classification and retry hook.
+     *      The attempt limit defaults to the number of delays up to the maximum delay, counted without jitter.
      */
-    constructor(private readonly options: ExponentialBackoffOptions) {
+    constructor(options: ExponentialBackoffOptions, policy?: Omit<RetryPolicyOptions, 'strategy'>) {
+        super({ ...policy, maxAttempts: policy?.maxAttempts ?? countAttempts(options), strategy: new ExponentialDelay(options) });
     }
+}
 
-    /**
-     * Executes the given operation and applies exponential backoff with retries.
-     * The operation will be retried until it succeeds or the maximum delay is reached.
-     * @param {() => Promise<TResult>} operation - The asynchronous operation to execute and retry in case of failure.
-     * @returns {Promise<TResult>} A promise that resolves with the result of the operation if it succeeds, or rejects with the last error if all attempts fail.
-     */
-    public execute<TResult>(operation: () => Promise<TResult>): Promise<TResult> {
-        return new Promise(async (resolve, reject) => {
-            let lastError: Error | unknown = null;
-            let currentDelay = this.options.initialDelay;
+function countAttempts({ initialDelay, maxDelay, factor }: ExponentialBackoffOptions): number | undefined {
+    // A delay that never grows never reaches the maximum, so attempts are unlimited
+    if (factor <= 1 || initialDelay.totalMilliseconds <= 0)
+        return undefined;
 
-            while (currentDelay <= this.options.maxDelay) {
-                try {
-                    const result = await this.attempt(operation);
-                    resolve(result);
-                    return;
-                } catch (error) {
-                    lastError = error;
-                    await Wait(currentDelay);
-                    currentDelay = this.getUpdatedDelay(currentDelay);
-                }
-            }
+    let attempts = 0;
 
-            reject(lastError);
-        });
-    }
+    // Jitter is left out, so the limit does not depend on chance and matches the documented delays
+    for (let delay = initialDelay.totalMilliseconds; delay <= maxDelay.totalMilliseconds; delay *= factor)
+        attempts++;
 
-    private attempt<TResult>(operation: () => Promise<TResult>) {
-        return new Promise<TResult>(async (resolve, reject) => {
-            try {
-                const result = await operation();
-                resolve(result);
-            } catch (error) {
-                reject(error);
-            }
-        });
-    }
-
-    private getUpdatedDelay(currentDelay: TimeSpan): TimeSpan {
-        const jitter = this.options.jitter ? Math.random() * this.options.jitter.totalMilliseconds : 0;
-        const newDelay = (currentDelay.totalMilliseconds * this.options.factor) + jitter;
-        return TimeSpan.fromMilliseconds(newDelay);
-    }
+    return Math.max(attempts, 1);
 }
 
 export type ExponentialBackoffOptions = {
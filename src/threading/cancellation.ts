@@ -0,0 +1,176 @@
+﻿import { TimeSpan } from 'dash-core';
+
+
+/**
+ * Thrown when an operation is interrupted through a `CancellationToken`.
+ */
+export class CancellationError extends Error {
+    /**
+     * @param {string} [message='The operation was canceled'] - The error message.
+     */
+    constructor(message: string = 'The operation was canceled') {
+        super(message);
+        this.name = 'CancellationError';
+    }
+}
+
+/**
+ * Thrown when an operation does not complete within its allotted time.
+ */
+export class TimeoutError extends Error {
+    /**
+     * @param {TimeSpan} timeout - The time that elapsed before the operation was abandoned.
+     * @param {string} [message] - The error message.
+     */
+    constructor(public readonly timeout: TimeSpan, message: string = `The operation timed out after ${timeout.totalMilliseconds} ms`) {
+        super(message);
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * Propagates a notification that an operation should be canceled.
+ * Tokens are created by a `CancellationTokenSource` or wrap an existing `AbortSignal`.
+ */
+export class CancellationToken {
+    private readonly abortSignal: AbortSignal;
+
+    /**
+     * Gets a token that is never canceled.
+     * @returns {CancellationToken} A token that never requests cancellation.
+     */
+    static get none(): CancellationToken {
+        return new CancellationToken(new AbortController().signal);
+    }
+
+    /**
+     * Creates a token that is canceled together with the given `AbortSignal`.
+     * @param {AbortSignal} signal - The signal to observe.
+     * @returns {CancellationToken} A token bound to the signal.
+     */
+    static fromAbortSignal(signal: AbortSignal): CancellationToken {
+        return new CancellationToken(signal);
+    }
+
+    /**
+     * @param {AbortSignal} signal - The signal backing this token.
+     */
+    constructor(signal: AbortSignal) {
+        this.abortSignal = signal;
+    }
+
+    /**
+     * Returns whether cancellation has been requested for this token.
+     */
+    get isCancellationRequested(): boolean {
+        return this.abortSignal.aborted;
+    }
+
+    /**
+     * Gets the `AbortSignal` backing this token, e.g. to pass into `fetch` or axios.
+     */
+    get signal(): AbortSignal {
+        return this.abortSignal;
+    }
+
+    /**
+     * Registers a callback that is invoked when cancellation is requested.
+     * If cancellation has already been requested, the callback is invoked immediately.
+     * @param {() => void} callback - The callback to invoke.
+     * @returns {() => void} A function that unregisters the callback.
+     */
+    register(callback: () => void): () => void {
+        if (this.abortSignal.aborted) {
+            callback();
+            return () => { };
+        }
+
+        this.abortSignal.addEventListener('abort', callback, { once: true });
+        return () => this.abortSignal.removeEventListener('abort', callback);
+    }
+
+    /**
+     * Throws a `CancellationError` if cancellation has been requested.
+     * @throws {CancellationError} If the token is canceled.
+     */
+    throwIfCancellationRequested(): void {
+        if (this.abortSignal.aborted) {
+            throw new CancellationError();
+        }
+    }
+}
+
+/**
+ * Creates and signals `CancellationToken` instances.
+ */
+export class CancellationTokenSource {
+    private readonly controller = new AbortController();
+    private readonly disposers: (() => void)[] = [];
+    private timeout?: NodeJS.Timeout;
+
+    /**
+     * Creates a source that is canceled as soon as any of the given tokens is canceled.
+     * @param {...CancellationToken[]} tokens - The tokens to link to.
+     * @returns {CancellationTokenSource} The linked source.
+     */
+    static createLinked(...tokens: (CancellationToken | undefined)[]): CancellationTokenSource {
+        const source = new CancellationTokenSource();
+
+        for (const token of tokens) {
+            if (token) {
+                source.disposers.push(token.register(() => source.cancel()));
+            }
+        }
+
+        return source;
+    }
+
+    /**
+     * Gets the token associated with this source.
+     */
+    get token(): CancellationToken {
+        return new CancellationToken(this.controller.signal);
+    }
+
+    /**
+     * Returns whether cancellation has been requested on this source.
+     */
+    get isCancellationRequested(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    /**
+     * Requests cancellation. Pending waits observing the token are woken immediately.
+     */
+    cancel(): void {
+        if (this.isCancellationRequested) {
+            return;
+        }
+
+        this.dispose();
+        this.controller.abort(new CancellationError());
+    }
+
+    /**
+     * Schedules cancellation after the given delay.
+     * @param {TimeSpan} delay - The delay after which the source is canceled.
+     */
+    cancelAfter(delay: TimeSpan): void {
+        if (this.isCancellationRequested) {
+            return;
+        }
+
+        clearTimeout(this.timeout);
+        this.timeout = setTimeout(() => this.cancel(), delay.totalMilliseconds);
+    }
+
+    /**
+     * Releases scheduled timers and links to other tokens without canceling.
+     */
+    dispose(): void {
+        clearTimeout(this.timeout);
+        this.timeout = undefined;
+
+        this.disposers.splice(0).forEach((dispose) => dispose());
+    }
+}
@@ -0,0 +1,179 @@
+﻿import { ServiceLogger, TimeSpan } from 'dash-core';
+
+
+export enum CircuitState {
+    CLOSED = 'closed',
+    OPEN = 'open',
+    HALF_OPEN = 'half-open'
+}
+
+/**
+ * Thrown when a call is rejected because the circuit is open.
+ */
+export class CircuitOpenError extends Error {
+    /**
+     * @param {TimeSpan} retryAfter - The time remaining until the circuit admits probe calls again.
+     */
+    constructor(public readonly retryAfter: TimeSpan) {
+        super(`Circuit is open, retry after ${retryAfter.totalMilliseconds} ms`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+type circuitBreakerOptions = {
+    /** Number of consecutive failures after which the circuit opens. */
+    failureThreshold: number,
+
+    /** Time the circuit stays open before admitting probe calls. */
+    coolDown: TimeSpan,
+
+    /** Number of probe calls admitted while half-open; all of them must succeed to close the circuit. */
+    halfOpenProbes: number,
+
+    /** Decides whether an error counts as a failure (default counts every error). */
+    isFailure?: (error: unknown) => boolean,
+
+    /** Optional callback invoked on every state change. */
+    onStateChange?: (state: CircuitState, previous: CircuitState) => void,
+
+    /** Optional logger for state change events. */
+    logger?: ServiceLogger,
+}
+
+/**
+ * Stops calling a failing operation for a cool-down period once it fails repeatedly.
+ */
+export class CircuitBreaker {
+    private currentState: CircuitState = CircuitState.CLOSED;
+    private failures: number = 0;
+    private openedAt: number = 0;
+    private probesInFlight: number = 0;
+    private probeSuccesses: number = 0;
+
+    private readonly options: circuitBreakerOptions;
+
+    private readonly defaultOptions: circuitBreakerOptions = {
+        failureThreshold: 5,
+        coolDown: TimeSpan.fromSeconds(30),
+        halfOpenProbes: 1
+    }
+
+    /**
+     * Creates an instance of the CircuitBreaker class.
+     * @param {circuitBreakerOptions} options - Configuration options for the circuit breaker.
+     * @param {number} options.failureThreshold - The number of consecutive failures after which the circuit opens.
+     * @param {TimeSpan} options.coolDown - The time the circuit stays open before admitting probe calls.
+     * @param {number} options.halfOpenProbes - The number of probe calls admitted while half-open.
+     * @param {(error: unknown) => boolean} [options.isFailure] - Decides whether an error counts as a failure.
+     * @param {(state: CircuitState, previous: CircuitState) => void} [options.onStateChange] - Optional callback invoked on every state change.
+     * @param {ServiceLogger} [options.logger] - Optional logger to log state changes.
+     */
+    constructor(options?: Partial<circuitBreakerOptions>) {
+        this.options = { ...this.defaultOptions, ...options };
+    }
+
+    /**
+     * Gets the current state of the circuit. An open circuit turns half-open once the cool-down has elapsed.
+     */
+    public get state(): CircuitState {
+        if (this.currentState === CircuitState.OPEN && this.remainingCoolDown === 0) {
+            this.transition(CircuitState.HALF_OPEN);
+        }
+
+        return this.currentState;
+    }
+
+    private get remainingCoolDown(): number {
+        return Math.max(0, this.openedAt + this.options.coolDown.totalMilliseconds - Date.now());
+    }
+
+    /**
+     * Executes the operation through the circuit.
+     * @param {() => Promise<TResult>} operation - The asynchronous operation to execute.
+     * @returns {Promise<TResult>} A promise that resolves with the result of the operation.
+     *      Rejects with a `CircuitOpenError` without calling the operation while the circuit is open.
+     */
+    public async execute<TResult>(operation: () => Promise<TResult>): Promise<TResult> {
+        const state = this.state;
+
+        if (state === CircuitState.OPEN || (state === CircuitState.HALF_OPEN && this.probesInFlight >= this.options.halfOpenProbes)) {
+            throw new CircuitOpenError(TimeSpan.fromMilliseconds(this.remainingCoolDown));
+        }
+
+        const isProbe = state === CircuitState.HALF_OPEN;
+
+        if (isProbe)
+            this.probesInFlight++;
+
+        try {
+            const result = await operation();
+            this.onSuccess(isProbe);
+            return result;
+        } catch (error) {
+            this.onFailure(error, isProbe);
+            throw error;
+        } finally {
+            if (isProbe)
+                this.probesInFlight--;
+        }
+    }
+
+    /**
+     * Closes the circuit and clears the failure count.
+     */
+    public reset(): void {
+        this.failures = 0;
+        this.transition(CircuitState.CLOSED);
+    }
+
+    private onSuccess(isProbe: boolean): void {
+        this.failures = 0;
+
+        if (!isProbe || this.currentState !== CircuitState.HALF_OPEN)
+            return;
+
+        this.probeSuccesses++;
+
+        if (this.probeSuccesses >= this.options.halfOpenProbes) {
+            this.transition(CircuitState.CLOSED);
+        }
+    }
+
+    private onFailure(error: unknown, isProbe: boolean): void {
+        if (this.options.isFailure && !this.options.isFailure(error)) {
+            if (isProbe)
+                this.onSuccess(isProbe);
+
+            return;
+        }
+
+        this.failures++;
+
+        if (isProbe || this.failures >= this.options.failureThreshold) {
+            this.openedAt = Date.now();
+            this.transition(CircuitState.OPEN);
+        }
+    }
+
+    private transition(state: CircuitState): void {
+        const previous = this.currentState;
+
+        this.probeSuccesses = 0;
+
+        if (state === CircuitState.CLOSED)
+            this.failures = 0;
+
+        if (previous === state)
+            return;
+
+        this.currentState = state;
+
+        if (state === CircuitState.OPEN) {
+            this.options.logger?.warning(`CircuitBreaker opened after ${this.failures} failures, cooling down for ${this.options.coolDown.totalMilliseconds} ms`);
+        } else {
+            this.options.logger?.info(`CircuitBreaker changed state from ${previous} to ${state}`);
+        }
+
+        this.options.onStateChange?.(state, previous);
+    }
+}
@@ -0,0 +1,187 @@
+﻿type cronField = {
+    min: number,
+    max: number,
+    names?: string[]
+}
+
+const MINUTE: cronField = { min: 0, max: 59 };
+const HOUR: cronField = { min: 0, max: 23 };
+const DAY_OF_MONTH: cronField = { min: 1, max: 31 };
+const MONTH: cronField = { min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] };
+const DAY_OF_WEEK: cronField = { min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] };
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *'
+};
+
+/** Upper bound for the search of the next occurrence, so impossible dates like `0 0 30 2 *` terminate. */
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Represents a standard five-field cron expression (minute, hour, day of month, month, day of week).
+ * Supports `*`, lists, ranges, steps, month and weekday names and the `@hourly`-style macros.
+ * Occurrences are computed in local time.
+ */
+export class CronExpression {
+    private readonly minutes: Set<number>;
+    private readonly hours: Set<number>;
+    private readonly daysOfMonth: Set<number>;
+    private readonly months: Set<number>;
+    private readonly daysOfWeek: Set<number>;
+    private readonly restrictedDayOfMonth: boolean;
+    private readonly restrictedDayOfWeek: boolean;
+
+    /**
+     * @param {string} expression - The cron expression, e.g. `*\/15 9-17 * * mon-fri`.
+     * @throws Error if the expression is malformed.
+     */
+    constructor(public readonly expression: string) {
+        const source = MACROS[expression.trim().toLowerCase()] ?? expression;
+        const fields = source.trim().split(/\s+/);
+
+        if (fields.length !== 5) {
+            throw new Error(`Invalid cron expression '${expression}': expected 5 fields but got ${fields.length}`);
+        }
+
+        this.minutes = parseField(fields[0], MINUTE, expression);
+        this.hours = parseField(fields[1], HOUR, expression);
+        this.daysOfMonth = parseField(fields[2], DAY_OF_MONTH, expression);
+        this.months = parseField(fields[3], MONTH, expression);
+        this.daysOfWeek = parseField(fields[4], DAY_OF_WEEK, expression);
+
+        if (this.daysOfWeek.delete(7))
+            this.daysOfWeek.add(0);
+
+        // A day field is only restricted if it leaves out a day, so `*/1` behaves like `*`; Sunday is kept once, as 0
+        this.restrictedDayOfMonth = this.daysOfMonth.size < DAY_OF_MONTH.max - DAY_OF_MONTH.min + 1;
+        this.restrictedDayOfWeek = this.daysOfWeek.size < DAY_OF_WEEK.max - DAY_OF_WEEK.min;
+    }
+
+    /**
+     * Parses a cron expression.
+     * @param {string} expression - The cron expression.
+     * @returns {CronExpression} The parsed expression.
+     */
+    static parse(expression: string): CronExpression {
+        return new CronExpression(expression);
+    }
+
+    /**
+     * Determines whether the given date matches the expression, ignoring seconds.
+     * @param {Date} date - The date to test.
+     * @returns {boolean} True if the expression fires at the date's minute.
+     */
+    matches(date: Date): boolean {
+        return this.minutes.has(date.getMinutes())
+            && this.hours.has(date.getHours())
+            && this.months.has(date.getMonth() + 1)
+            && this.matchesDay(date);
+    }
+
+    /**
+     * Computes the first occurrence strictly after the given date.
+     * @param {Date} [from=new Date()] - The date to search from.
+     * @returns {Date} The next occurrence.
+     * @throws Error if the expression has no occurrence within the next five years.
+     */
+    next(from: Date = new Date()): Date {
+        const date = new Date(from.getTime());
+        date.setSeconds(0, 0);
+        date.setMinutes(date.getMinutes() + 1);
+
+        const limit = from.getFullYear() + MAX_SEARCH_YEARS;
+
+        while (date.getFullYear() <= limit) {
+            if (!this.months.has(date.getMonth() + 1)) {
+                date.setMonth(date.getMonth() + 1, 1);
+                date.setHours(0, 0, 0, 0);
+                continue;
+            }
+
+            if (!this.matchesDay(date)) {
+                date.setDate(date.getDate() + 1);
+                date.setHours(0, 0, 0, 0);
+                continue;
+            }
+
+            if (!this.hours.has(date.getHours())) {
+                date.setHours(date.getHours() + 1, 0, 0, 0);
+                continue;
+            }
+
+            if (!this.minutes.has(date.getMinutes())) {
+                date.setMinutes(date.getMinutes() + 1, 0, 0);
+                continue;
+            }
+
+            return date;
+        }
+
+        throw new Error(`Cron expression '${this.expression}' has no occurrence within ${MAX_SEARCH_YEARS} years`);
+    }
+
+    /** Returns the original expression. */
+    toString(): string {
+        return this.expression;
+    }
+
+    private matchesDay(date: Date): boolean {
+        const dayOfMonth = this.daysOfMonth.has(date.getDate());
+        const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+        // Standard cron semantics: when both day fields are restricted, either one may match
+        if (this.restrictedDayOfMonth && this.restrictedDayOfWeek)
+            return dayOfMonth || dayOfWeek;
+
+        return dayOfMonth && dayOfWeek;
+    }
+}
+
+function parseField(input: string, field: cronField, expression: string): Set<number> {
+    const result = new Set<number>();
+
+    for (const part of input.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+
+        if (!Number.isInteger(step) || step <= 0) {
+            throw new Error(`Invalid cron expression '${expression}': bad step in '${part}'`);
+        }
+
+        let start = field.min;
+        let end = field.max;
+
+        if (range !== '*') {
+            const bounds = range.split('-');
+
+            start = parseValue(bounds[0], field, expression);
+            end = bounds.length > 1 ? parseValue(bounds[1], field, expression) : (stepText === undefined ? start : field.max);
+
+            if (bounds.length > 2 || start > end) {
+                throw new Error(`Invalid cron expression '${expression}': bad range '${range}'`);
+            }
+        }
+
+        for (let value = start; value <= end; value += step)
+            result.add(value);
+    }
+
+    return result;
+}
+
+function parseValue(input: string, field: cronField, expression: string): number {
+    const index = field.names?.indexOf(input.toLowerCase()) ?? -1;
+    const value = index >= 0 ? index + (field === MONTH ? 1 : 0) : Number(input);
+
+    if (input === '' || !Number.isInteger(value) || value < field.min || value > field.max) {
+        throw new Error(`Invalid cron expression '${expression}': value '${input}' is out of range ${field.min}-${field.max}`);
+    }
+
+    return value;
+}
@@ -0,0 +1,121 @@
+﻿import { TimeSpan } from 'dash-core';
+import { ExponentialBackoffOptions } from './backoff';
+
+
+/**
+ * Computes the delay before a retry attempt.
+ */
+export interface DelayStrategy {
+    /**
+     * Returns the delay to wait before the next attempt.
+     * @param {number} attempt - The number of the attempt that just failed, starting at 1.
+     * @param {TimeSpan} [previousDelay] - The delay returned for the previous attempt, if any.
+     * @returns {TimeSpan | undefined} The delay to wait, or `undefined` if the strategy is exhausted and no more retries should be made.
+     */
+    next(attempt: number, previousDelay?: TimeSpan): TimeSpan | undefined;
+}
+
+/**
+ * Waits the same delay before every retry.
+ */
+export class FixedDelay implements DelayStrategy {
+    /**
+     * @param {TimeSpan} delay - The delay between attempts.
+     */
+    constructor(private readonly delay: TimeSpan) {
+    }
+
+    public next(): TimeSpan {
+        return this.delay;
+    }
+}
+
+/**
+ * Increases the delay by a constant step after every failure.
+ */
+export class LinearDelay implements DelayStrategy {
+    /**
+     * @param {TimeSpan} initialDelay - The delay before the first retry.
+     * @param {TimeSpan} step - The amount added to the delay after each failure.
+     * @param {TimeSpan} [maxDelay] - Optional upper bound for the delay.
+     */
+    constructor(private readonly initialDelay: TimeSpan, private readonly step: TimeSpan, private readonly maxDelay?: TimeSpan) {
+    }
+
+    public next(attempt: number): TimeSpan {
+        const delay = this.initialDelay.totalMilliseconds + this.step.totalMilliseconds * (attempt - 1);
+        return TimeSpan.fromMilliseconds(capDelay(delay, this.maxDelay));
+    }
+}
+
+/**
+ * Multiplies the delay by a factor after every failure, with optional additive jitter.
+ * The strategy is exhausted once the delay exceeds `maxDelay`.
+ */
+export class ExponentialDelay implements DelayStrategy {
+    /**
+     * @param {ExponentialBackoffOptions} options - Configuration options for the delay growth.
+     * @param {TimeSpan} options.initialDelay - The delay before the first retry.
+     * @param {TimeSpan} options.maxDelay - The maximum delay; larger delays exhaust the strategy.
+     * @param {number} options.factor - The factor by which the delay increases after each failure.
+     * @param {TimeSpan} [options.jitter] - An optional jitter value that is added randomly to the delay.
+     */
+    constructor(private readonly options: ExponentialBackoffOptions) {
+    }
+
+    public next(_attempt: number, previousDelay?: TimeSpan): TimeSpan | undefined {
+        let delay = this.options.initialDelay.totalMilliseconds;
+
+        if (previousDelay) {
+            const jitter = this.options.jitter ? Math.random() * this.options.jitter.totalMilliseconds : 0;
+            delay = (previousDelay.totalMilliseconds * this.options.factor) + jitter;
+        }
+
+        if (delay > this.options.maxDelay.totalMilliseconds)
+            return undefined;
+
+        return TimeSpan.fromMilliseconds(delay);
+    }
+}
+
+/**
+ * Picks a random delay between zero and the exponentially growing ceiling ("full jitter").
+ */
+export class FullJitterDelay implements DelayStrategy {
+    /**
+     * @param {TimeSpan} baseDelay - The ceiling for the first retry.
+     * @param {TimeSpan} maxDelay - The upper bound for the ceiling.
+     * @param {number} [factor=2] - The factor by which the ceiling grows after each failure.
+     */
+    constructor(private readonly baseDelay: TimeSpan, private readonly maxDelay: TimeSpan, private readonly factor: number = 2) {
+    }
+
+    public next(attempt: number): TimeSpan {
+        const ceiling = capDelay(this.baseDelay.totalMilliseconds * Math.pow(this.factor, attempt - 1), this.maxDelay);
+        return TimeSpan.fromMilliseconds(Math.random() * ceiling);
+    }
+}
+
+/**
+ * Picks a random delay between the base delay and three times the previous delay ("decorrelated jitter").
+ */
+export class DecorrelatedJitterDelay implements DelayStrategy {
+    /**
+     * @param {TimeSpan} baseDelay - The minimum delay between attempts.
+     * @param {TimeSpan} maxDelay - The upper bound for the delay.
+     */
+    constructor(private readonly baseDelay: TimeSpan, private readonly maxDelay: TimeSpan) {
+    }
+
+    public next(_attempt: number, previousDelay?: TimeSpan): TimeSpan {
+        const base = this.baseDelay.totalMilliseconds;
+        const upper = Math.max(base, (previousDelay?.totalMilliseconds ?? base) * 3);
+        const delay = base + Math.random() * (upper - base);
+
+        return TimeSpan.fromMilliseconds(capDelay(delay, this.maxDelay));
+    }
+}
+
+function capDelay(milliseconds: number, maxDelay?: TimeSpan): number {
+    return maxDelay ? Math.min(milliseconds, maxDelay.totalMilliseconds) : milliseconds;
+}
@@ -1,3 +1,11 @@
 ﻿export * from './adaptive-poller';
 export * from './backoff';
+export * from './cancellation';
+export * from './circuit-breaker';
+export * from './cron';
+export * from './delay-strategy';
+export * from './rate-limiter';
+export * from './retry-policy';
+export * from './scheduler';
+export * from './semaphore';
 export * from './tasks';
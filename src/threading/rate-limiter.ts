@@ -0,0 +1,202 @@
+﻿import { CancellationError, CancellationToken, Rate } from 'dash-core';
+
+
+export enum RateLimiterMode {
+    TOKEN_BUCKET = 'token-bucket',
+    SLIDING_WINDOW = 'sliding-window'
+}
+
+type rateLimiterOptions = {
+    /** Algorithm used to enforce the rate. */
+    mode: RateLimiterMode,
+
+    /** Maximum number of permits that can be taken at once in token-bucket mode (defaults to the rate). */
+    burst?: number,
+}
+
+type waiter = {
+    count: number,
+    resolve: () => void,
+    reject: (error: Error) => void,
+    unregister: () => void
+}
+
+/**
+ * Enforces a `Rate` by handing out permits, either from a token bucket or from a sliding window.
+ */
+export class RateLimiter {
+    private readonly rate: Rate;
+    private readonly options: rateLimiterOptions;
+
+    private tokens: number;
+    private lastRefill: number = Date.now();
+    private readonly window: number[] = [];
+
+    private readonly waiters: waiter[] = [];
+    private timer?: NodeJS.Timeout;
+
+    private readonly defaultOptions: rateLimiterOptions = {
+        mode: RateLimiterMode.TOKEN_BUCKET
+    }
+
+    /**
+     * Creates an instance of the RateLimiter class.
+     * @param {Rate} rate - The rate to enforce, e.g. `Rate.of(100, TimeSpan.fromMinutes(1))`.
+     * @param {rateLimiterOptions} [options] - Configuration options for the limiter.
+     * @param {RateLimiterMode} options.mode - The algorithm used to enforce the rate (default is token bucket).
+     * @param {number} [options.burst] - The bucket capacity in token-bucket mode (default is the rate itself).
+     */
+    constructor(rate: Rate, options?: Partial<rateLimiterOptions>) {
+        this.rate = rate;
+        this.options = { ...this.defaultOptions, ...options };
+
+        if (this.capacity <= 0) {
+            throw new Error('Burst capacity must be a positive number');
+        }
+
+        this.tokens = this.capacity;
+    }
+
+    /**
+     * Gets the maximum number of permits that can be acquired at once.
+     */
+    public get capacity(): number {
+        if (this.options.mode === RateLimiterMode.SLIDING_WINDOW)
+            return this.rate.rate;
+
+        return this.options.burst ?? this.rate.rate;
+    }
+
+    /**
+     * Gets the number of permits that can be acquired right now without waiting.
+     */
+    public get available(): number {
+        if (this.waiters.length > 0)
+            return 0;
+
+        return Math.floor(this.getAvailable(Date.now()));
+    }
+
+    /**
+     * Acquires permits without waiting.
+     * @param {number} [count=1] - The number of permits to acquire.
+     * @returns {boolean} True if the permits were acquired, false if the caller would have to wait.
+     */
+    public tryAcquire(count: number = 1): boolean {
+        this.validate(count);
+
+        if (this.waiters.length > 0)
+            return false;
+
+        return this.take(count, Date.now());
+    }
+
+    /**
+     * Acquires permits, waiting until they become available. Waiting callers are served in FIFO order.
+     * @param {number} [count=1] - The number of permits to acquire.
+     * @param {CancellationToken} [cancellationToken] - Token that abandons the wait.
+     * @returns {Promise<void>} A promise that resolves once the permits are acquired, or rejects with a `CancellationError` once the token is canceled.
+     */
+    public acquire(count: number = 1, cancellationToken: CancellationToken = CancellationToken.none): Promise<void> {
+        this.validate(count);
+
+        if (cancellationToken.isCancellationRequested)
+            return Promise.reject(new CancellationError());
+
+        if (this.waiters.length === 0 && this.take(count, Date.now()))
+            return Promise.resolve();
+
+        return new Promise<void>((resolve, reject) => {
+            const item: waiter = { count, resolve, reject, unregister: () => { } };
+
+            this.waiters.push(item);
+
+            item.unregister = cancellationToken.register(() => {
+                const index = this.waiters.indexOf(item);
+
+                if (index < 0)
+                    return;
+
+                this.waiters.splice(index, 1);
+                reject(new CancellationError());
+                this.schedule();
+            });
+
+            this.schedule();
+        });
+    }
+
+    private validate(count: number): void {
+        if (count <= 0 || count > this.capacity) {
+            throw new Error(`Permit count must be between 1 and ${this.capacity}`);
+        }
+    }
+
+    private drain(): void {
+        this.timer = undefined;
+
+        while (this.waiters.length > 0 && this.take(this.waiters[0].count, Date.now())) {
+            const item = this.waiters.shift()!;
+            item.unregister();
+            item.resolve();
+        }
+
+        this.schedule();
+    }
+
+    private schedule(): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+
+        if (this.waiters.length === 0)
+            return;
+
+        const delay = this.getWaitTime(this.waiters[0].count, Date.now());
+        this.timer = setTimeout(() => this.drain(), Math.ceil(delay));
+    }
+
+    private take(count: number, now: number): boolean {
+        if (this.getAvailable(now) < count)
+            return false;
+
+        if (this.options.mode === RateLimiterMode.SLIDING_WINDOW) {
+            for (let i = 0; i < count; i++)
+                this.window.push(now);
+        } else {
+            this.tokens -= count;
+        }
+
+        return true;
+    }
+
+    private getAvailable(now: number): number {
+        if (this.options.mode === RateLimiterMode.SLIDING_WINDOW) {
+            const windowStart = now - this.rate.interval.totalMilliseconds;
+
+            while (this.window.length > 0 && this.window[0] <= windowStart)
+                this.window.shift();
+
+            return this.rate.rate - this.window.length;
+        }
+
+        const elapsed = now - this.lastRefill;
+        this.lastRefill = now;
+        this.tokens = Math.min(this.capacity, this.tokens + elapsed / this.rate.delay.totalMilliseconds);
+
+        return this.tokens;
+    }
+
+    private getWaitTime(count: number, now: number): number {
+        const missing = count - this.getAvailable(now);
+
+        if (missing <= 0)
+            return 0;
+
+        if (this.options.mode === RateLimiterMode.SLIDING_WINDOW) {
+            const expiring = this.window[missing - 1];
+            return expiring + this.rate.interval.totalMilliseconds - now;
+        }
+
+        return missing * this.rate.delay.totalMilliseconds;
+    }
+}
@@ -0,0 +1,136 @@
+﻿import { CancellationError, CancellationToken, CircuitBreaker, CircuitOpenError, MetricsRegistry, TimeSpan, Wait } from 'dash-core';
+import { DelayStrategy } from './delay-strategy';
+
+
+/**
+ * Retries failing operations according to a delay strategy, attempt limit, time budget and error classification.
+ */
+export class RetryPolicy {
+    /**
+     * Creates an instance of the RetryPolicy class with the specified options.
+     * @param {RetryPolicyOptions} options - Configuration options for the retry policy.
+     * @param {DelayStrategy} options.strategy - The strategy that computes the delay before each retry.
+     * @param {number} [options.maxAttempts] - The maximum number of attempts, including the first one.
+     * @param {TimeSpan} [options.timeBudget] - The total time after which no further retries are scheduled.
+     * @param {(error: unknown, attempt: number) => boolean} [options.shouldRetry] - Decides per error whether a retry is allowed (default retries every error).
+     * @param {(context: RetryContext) => void} [options.onRetry] - Called before waiting for the next attempt.
+     * @param {CircuitBreaker} [options.circuitBreaker] - Optional circuit breaker every attempt is routed through. An open circuit is not retried.
+     * @param {(error: unknown) => TimeSpan | undefined} [options.retryAfter] - Returns a delay requested by the failed operation itself
+     *      (e.g. a `Retry-After` header), which replaces the strategy's delay for that retry.
+     * @param {MetricsRegistry} [options.metrics] - Optional registry counting retries in `retry_policy_retries_total`
+     *      and operations the policy gave up on in `retry_policy_exhausted_total`.
+     * @param {string} [options.name] - The `policy` label of the metrics (default is "default").
+     */
+    constructor(protected readonly policy: RetryPolicyOptions) {
+    }
+
+    /**
+     * Creates a policy with the given options layered on top of this one.
+     * Both `shouldRetry` predicates must allow a retry and both `onRetry` hooks are called; other options are replaced.
+     * @param {Partial<RetryPolicyOptions>} options - The options to layer on top.
+     * @returns {RetryPolicy} The combined policy.
+     */
+    public extend(options: Partial<RetryPolicyOptions>): RetryPolicy {
+        const base = this.policy;
+
+        return new RetryPolicy({
+            ...base,
+            ...options,
+            shouldRetry: base.shouldRetry && options.shouldRetry
+                ? (error, attempt) => base.shouldRetry!(error, attempt) && options.shouldRetry!(error, attempt)
+                : options.shouldRetry ?? base.shouldRetry,
+            onRetry: base.onRetry && options.onRetry
+                ? (context) => { base.onRetry!(context); options.onRetry!(context); }
+                : options.onRetry ?? base.onRetry
+        });
+    }
+
+    /**
+     * Executes the given operation and retries it according to the policy.
+     * @param {(cancellationToken: CancellationToken) => Promise<TResult>} operation - The asynchronous operation to execute and retry in case of failure.
+     * @param {CancellationToken} [cancellationToken] - Token that aborts pending retries.
+     * @returns {Promise<TResult>} A promise that resolves with the result of the operation if it succeeds, or rejects with the last error once the policy gives up.
+     *      Rejects with a `CancellationError` once the token is canceled.
+     */
+    public async execute<TResult>(operation: (cancellationToken: CancellationToken) => Promise<TResult>, cancellationToken: CancellationToken = CancellationToken.none): Promise<TResult> {
+        const startedAt = Date.now();
+        let delay: TimeSpan | undefined = undefined;
+
+        for (let attempt = 1; ; attempt++) {
+            cancellationToken.throwIfCancellationRequested();
+
+            try {
+                return await this.attempt(operation, cancellationToken);
+            } catch (error) {
+                if (cancellationToken.isCancellationRequested)
+                    throw new CancellationError();
+
+                if (error instanceof CircuitOpenError)
+                    throw error;
+
+                delay = this.getStrategyDelay(error, attempt, delay);
+
+                if (!delay) {
+                    this.count('retry_policy_exhausted_total', 'Operations that failed after the retry policy gave up');
+                    throw error;
+                }
+
+                const wait = this.policy.retryAfter?.(error) ?? delay;
+
+                if (this.policy.timeBudget && Date.now() - startedAt + wait.totalMilliseconds > this.policy.timeBudget.totalMilliseconds) {
+                    this.count('retry_policy_exhausted_total', 'Operations that failed after the retry policy gave up');
+                    throw error;
+                }
+
+                this.policy.onRetry?.({ attempt, delay: wait, error });
+                this.count('retry_policy_retries_total', 'Retries scheduled by the retry policy');
+
+                await Wait(wait, cancellationToken);
+            }
+        }
+    }
+
+    private count(name: string, help: string): void {
+        this.policy.metrics?.counter(name, help, ['policy']).inc({ policy: this.policy.name ?? 'default' });
+    }
+
+    private attempt<TResult>(operation: (cancellationToken: CancellationToken) => Promise<TResult>, cancellationToken: CancellationToken): Promise<TResult> {
+        if (!this.policy.circuitBreaker)
+            return operation(cancellationToken);
+
+        return this.policy.circuitBreaker.execute(() => operation(cancellationToken));
+    }
+
+    private getStrategyDelay(error: unknown, attempt: number, previousDelay: TimeSpan | undefined): TimeSpan | undefined {
+        if (this.policy.maxAttempts !== undefined && attempt >= this.policy.maxAttempts)
+            return undefined;
+
+        if (this.policy.shouldRetry && !this.policy.shouldRetry(error, attempt))
+            return undefined;
+
+        return this.policy.strategy.next(attempt, previousDelay);
+    }
+}
+
+export type RetryContext = {
+    /** The number of the attempt that just failed, starting at 1. */
+    attempt: number,
+
+    /** The delay before the next attempt. */
+    delay: TimeSpan,
+
+    /** The error raised by the failed attempt. */
+    error: unknown
+}
+
+export type RetryPolicyOptions = {
+    strategy: DelayStrategy,
+    maxAttempts?: number,
+    timeBudget?: TimeSpan,
+    shouldRetry?: (error: unknown, attempt: number) => boolean,
+    onRetry?: (context: RetryContext) => void,
+    circuitBreaker?: CircuitBreaker,
+    retryAfter?: (error: unknown) => TimeSpan | undefined,
+    metrics?: MetricsRegistry,
+    name?: string
+}
@@ -0,0 +1,313 @@
+﻿import { CancellationToken, CancellationTokenSource, ServiceLogger, TimeSpan, TimeoutError } from 'dash-core';
+import { CronExpression } from './cron';
+
+
+/** Longest delay Node timers accept; longer waits are re-armed in steps. */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+export enum OverlapPolicy {
+    /** Skips a run while the previous one is still in progress. */
+    SKIP = 'skip',
+
+    /** Runs after the previous run has finished. */
+    QUEUE = 'queue',
+
+    /** Runs concurrently with the previous run. */
+    ALLOW = 'allow'
+}
+
+type jobOptions = {
+    /** What to do when a run is due while the previous one is still in progress. */
+    overlap: OverlapPolicy,
+
+    /** Whether the job also runs immediately when it is scheduled. */
+    runOnStart: boolean,
+}
+
+type scheduledJob = {
+    name: string,
+    trigger: CronExpression | TimeSpan,
+    operation: (cancellationToken: CancellationToken) => Promise<void> | void,
+    options: jobOptions,
+    timer?: NodeJS.Timeout,
+    lastRunAt?: Date,
+    nextRunAt?: Date,
+    lastError?: unknown,
+    runs: number,
+    running: Set<Promise<void>>,
+    queued: number
+}
+
+/**
+ * Runs named jobs on cron expressions or fixed intervals.
+ */
+export class Scheduler {
+    private readonly entries = new Map<string, scheduledJob>();
+    private readonly cancellation = new CancellationTokenSource();
+    private stopping: boolean = false;
+
+    private readonly defaultJobOptions: jobOptions = {
+        overlap: OverlapPolicy.SKIP,
+        runOnStart: false
+    }
+
+    /**
+     * Creates an instance of the Scheduler class.
+     * @param {ServiceLogger} [logger] - Optional logger for job runs, skips and failures.
+     */
+    constructor(private readonly logger?: ServiceLogger) {
+    }
+
+    /**
+     * Registers a named job.
+     * @param {string} name - The unique name of the job.
+     * @param {string | CronExpression | TimeSpan} trigger - A cron expression or the interval between runs.
+     * @param {(cancellationToken: CancellationToken) => Promise<void> | void} operation - The job to run. The token is canceled when the scheduler shuts down.
+     * @param {Partial<jobOptions>} [options] - Options for the job.
+     * @param {OverlapPolicy} [options.overlap] - What to do when a run is due while the previous one is still in progress (default is skip).
+     * @param {boolean} [options.runOnStart] - Whether the job also runs immediately (default is false).
+     * @throws Error if a job with the same name is already registered or the scheduler is shut down.
+     */
+    public schedule(name: string, trigger: string | CronExpression | TimeSpan, operation: (cancellationToken: CancellationToken) => Promise<void> | void, options?: Partial<jobOptions>): void {
+        if (this.stopping) {
+            throw new Error('Scheduler is shut down');
+        }
+
+        if (this.entries.has(name)) {
+            throw new Error(`Job '${name}' is already scheduled`);
+        }
+
+        const job: scheduledJob = {
+            name,
+            trigger: typeof trigger === 'string' ? CronExpression.parse(trigger) : trigger,
+            operation,
+            options: { ...this.defaultJobOptions, ...options },
+            runs: 0,
+            running: new Set(),
+            queued: 0
+        };
+
+        this.entries.set(name, job);
+        this.logger?.info(`Job '${name}' scheduled (${job.trigger instanceof CronExpression ? job.trigger.expression : `every ${job.trigger.totalMilliseconds} ms`})`);
+
+        if (job.options.runOnStart)
+            this.trigger(job);
+
+        this.arm(job, new Date());
+    }
+
+    /**
+     * Removes a job. A run in progress is allowed to finish.
+     * @param {string} name - The name of the job.
+     * @returns {boolean} True if the job was registered, otherwise false.
+     */
+    public unschedule(name: string): boolean {
+        const job = this.entries.get(name);
+
+        if (!job)
+            return false;
+
+        clearTimeout(job.timer);
+        job.nextRunAt = undefined;
+        job.queued = 0;
+
+        this.entries.delete(name);
+        this.logger?.info(`Job '${name}' unscheduled`);
+
+        return true;
+    }
+
+    /**
+     * Gets the state of a job.
+     * @param {string} name - The name of the job.
+     * @returns {JobInfo | undefined} The job state, or undefined if no such job is registered.
+     */
+    public getJob(name: string): JobInfo | undefined {
+        const job = this.entries.get(name);
+        return job ? toJobInfo(job) : undefined;
+    }
+
+    /**
+     * Gets the state of every registered job.
+     */
+    public get jobs(): JobInfo[] {
+        return [...this.entries.values()].map(toJobInfo);
+    }
+
+    /**
+     * Runs a job immediately, outside its schedule, honouring its overlap policy.
+     * @param {string} name - The name of the job.
+     * @throws Error if no such job is registered.
+     */
+    public runNow(name: string): void {
+        const job = this.entries.get(name);
+
+        if (!job) {
+            throw new Error(`Job '${name}' is not scheduled`);
+        }
+
+        this.trigger(job);
+    }
+
+    /**
+     * Stops scheduling new runs, drops queued runs and waits for the running ones to finish.
+     * @param {TimeSpan} [timeout] - Optional time after which running jobs are canceled and the returned promise rejects with a `TimeoutError`.
+     * @returns {Promise<void>} A promise that resolves once every running job has finished.
+     */
+    public async shutdown(timeout?: TimeSpan): Promise<void> {
+        this.stopping = true;
+
+        const running: Promise<void>[] = [];
+
+        for (const job of this.entries.values()) {
+            clearTimeout(job.timer);
+            job.nextRunAt = undefined;
+            job.queued = 0;
+            running.push(...job.running);
+        }
+
+        this.logger?.info(`Scheduler shutting down, waiting for ${running.length} running jobs`);
+
+        if (timeout) {
+            let timer: NodeJS.Timeout | undefined;
+
+            try {
+                await Promise.race([
+                    Promise.all(running),
+                    new Promise<void>((_, reject) => {
+                        timer = setTimeout(() => reject(new TimeoutError(timeout)), timeout.totalMilliseconds);
+                    })
+                ]);
+            } catch (error) {
+                this.cancellation.cancel();
+                this.logger?.warning('Scheduler shutdown timed out, running jobs were canceled');
+                throw error;
+            } finally {
+                clearTimeout(timer);
+            }
+        } else {
+            await Promise.all(running);
+        }
+
+        this.cancellation.cancel();
+        this.logger?.info('Scheduler stopped');
+    }
+
+    private arm(job: scheduledJob, from: Date): void {
+        if (this.stopping || this.entries.get(job.name) !== job)
+            return;
+
+        const now = Date.now();
+
+        // Runs missed while the process was busy are not caught up on
+        let nextRunAt = job.trigger instanceof CronExpression
+            ? job.trigger.next(new Date(Math.max(from.getTime(), now)))
+            : new Date(from.getTime() + job.trigger.totalMilliseconds);
+
+        if (nextRunAt.getTime() < now)
+            nextRunAt = new Date(now + (job.trigger as TimeSpan).totalMilliseconds);
+
+        job.nextRunAt = nextRunAt;
+        this.armTimer(job, nextRunAt);
+    }
+
+    private armTimer(job: scheduledJob, nextRunAt: Date): void {
+        const delay = Math.max(0, nextRunAt.getTime() - Date.now());
+
+        job.timer = setTimeout(() => {
+            if (delay > MAX_TIMER_DELAY) {
+                this.armTimer(job, nextRunAt);
+                return;
+            }
+
+            this.trigger(job);
+            this.arm(job, nextRunAt);
+        }, Math.min(delay, MAX_TIMER_DELAY));
+    }
+
+    private trigger(job: scheduledJob): void {
+        if (this.stopping)
+            return;
+
+        if (job.running.size > 0) {
+            if (job.options.overlap === OverlapPolicy.SKIP) {
+                this.logger?.debug(`Job '${job.name}' skipped, previous run is still in progress`);
+                return;
+            }
+
+            if (job.options.overlap === OverlapPolicy.QUEUE) {
+                job.queued++;
+                this.logger?.debug(`Job '${job.name}' queued behind the run in progress`);
+                return;
+            }
+        }
+
+        this.run(job);
+    }
+
+    private run(job: scheduledJob): void {
+        const startedAt = new Date();
+
+        job.lastRunAt = startedAt;
+        job.runs++;
+
+        this.logger?.debug(`Job '${job.name}' started`);
+
+        const task = (async () => {
+            try {
+                await job.operation(this.cancellation.token);
+                job.lastError = undefined;
+                this.logger?.debug(`Job '${job.name}' finished in ${Date.now() - startedAt.getTime()} ms`);
+            } catch (error) {
+                job.lastError = error;
+                this.logger?.error(`Job '${job.name}' failed`, error);
+            }
+        })();
+
+        job.running.add(task);
+
+        task.then(() => {
+            job.running.delete(task);
+
+            if (job.queued > 0 && !this.stopping) {
+                job.queued--;
+                this.run(job);
+            }
+        });
+    }
+}
+
+function toJobInfo(job: scheduledJob): JobInfo {
+    return {
+        name: job.name,
+        lastRunAt: job.lastRunAt,
+        nextRunAt: job.nextRunAt,
+        lastError: job.lastError,
+        runs: job.runs,
+        running: job.running.size,
+        queued: job.queued
+    };
+}
+
+export type JobInfo = {
+    /** The unique name of the job. */
+    name: string,
+
+    /** When the job last started, if it has run. */
+    lastRunAt?: Date,
+
+    /** When the job is due next, if it is still scheduled. */
+    nextRunAt?: Date,
+
+    /** The error of the last run, if it failed. */
+    lastError?: unknown,
+
+    /** The number of runs started so far. */
+    runs: number,
+
+    /** The number of runs in progress. */
+    running: number,
+
+    /** The number of runs waiting behind the one in progress. */
+    queued: number
+}
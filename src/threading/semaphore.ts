@@ -0,0 +1,150 @@
+﻿import { CancellationError, CancellationToken, TimeSpan, TimeoutError } from 'dash-core';
+
+
+type waiter = {
+    resolve: () => void,
+    reject: (error: Error) => void
+}
+
+/**
+ * Limits the number of asynchronous operations that run at once.
+ * Waiting callers are granted permits in FIFO order.
+ */
+export class Semaphore {
+    private permits: number;
+    private readonly waiters: waiter[] = [];
+
+    /**
+     * Creates an instance of the Semaphore class.
+     * @param {number} maxPermits - The number of permits that can be held at once (must be > 0).
+     */
+    constructor(public readonly maxPermits: number) {
+        if (maxPermits <= 0) {
+            throw new Error('Semaphore permits must be a positive number');
+        }
+
+        this.permits = maxPermits;
+    }
+
+    /**
+     * Gets the number of permits that can be acquired without waiting.
+     */
+    public get available(): number {
+        return this.permits;
+    }
+
+    /**
+     * Gets the number of callers waiting for a permit.
+     */
+    public get waiting(): number {
+        return this.waiters.length;
+    }
+
+    /**
+     * Acquires a permit without waiting.
+     * @returns {boolean} True if a permit was acquired, otherwise false.
+     */
+    public tryAcquire(): boolean {
+        if (this.permits === 0)
+            return false;
+
+        this.permits--;
+        return true;
+    }
+
+    /**
+     * Acquires a permit, waiting until one is released.
+     * @param {TimeSpan} [timeout] - Optional time after which the wait is abandoned with a `TimeoutError`.
+     * @param {CancellationToken} [cancellationToken] - Optional token that abandons the wait with a `CancellationError`.
+     * @returns {Promise<void>} A promise that resolves once the permit is acquired.
+     */
+    public acquire(timeout?: TimeSpan, cancellationToken: CancellationToken = CancellationToken.none): Promise<void> {
+        if (cancellationToken.isCancellationRequested)
+            return Promise.reject(new CancellationError());
+
+        if (this.tryAcquire())
+            return Promise.resolve();
+
+        return new Promise<void>((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+            let unregister = () => { };
+
+            const settle = (error?: Error) => {
+                clearTimeout(timer);
+                unregister();
+
+                if (error) {
+                    const index = this.waiters.indexOf(item);
+
+                    if (index >= 0)
+                        this.waiters.splice(index, 1);
+
+                    reject(error);
+                } else {
+                    resolve();
+                }
+            };
+
+            const item: waiter = { resolve: () => settle(), reject: (error) => settle(error) };
+            this.waiters.push(item);
+
+            if (timeout) {
+                timer = setTimeout(() => settle(new TimeoutError(timeout)), timeout.totalMilliseconds);
+            }
+
+            unregister = cancellationToken.register(() => settle(new CancellationError()));
+        });
+    }
+
+    /**
+     * Releases a permit, handing it to the longest waiting caller if there is one.
+     * @throws {Error} If more permits are released than acquired.
+     */
+    public release(): void {
+        const next = this.waiters.shift();
+
+        if (next) {
+            next.resolve();
+            return;
+        }
+
+        if (this.permits >= this.maxPermits) {
+            throw new Error('Semaphore released more times than acquired');
+        }
+
+        this.permits++;
+    }
+
+    /**
+     * Runs the callback while holding a permit and releases it afterwards, even if the callback throws.
+     * @param {() => Promise<TResult> | TResult} callback - The operation to run exclusively.
+     * @param {TimeSpan} [timeout] - Optional time after which waiting for a permit is abandoned with a `TimeoutError`.
+     * @param {CancellationToken} [cancellationToken] - Optional token that abandons the wait with a `CancellationError`.
+     * @returns {Promise<TResult>} A promise that resolves with the result of the callback.
+     */
+    public async runExclusive<TResult>(callback: () => Promise<TResult> | TResult, timeout?: TimeSpan, cancellationToken?: CancellationToken): Promise<TResult> {
+        await this.acquire(timeout, cancellationToken);
+
+        try {
+            return await callback();
+        } finally {
+            this.release();
+        }
+    }
+}
+
+/**
+ * A semaphore with a single permit, guarding a critical section.
+ */
+export class Mutex extends Semaphore {
+    constructor() {
+        super(1);
+    }
+
+    /**
+     * Returns whether the mutex is currently held.
+     */
+    public get isLocked(): boolean {
+        return this.available === 0;
+    }
+}
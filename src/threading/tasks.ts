@@ -1,16 +1,43 @@
 ﻿import { TimeSpan } from 'dash-core';
+import { CancellationError, CancellationToken } from './cancellation';
 
 
 class Tasks {
-    /** Waits for the given `TimeSpan` before resolving. */
-    static wait(timeSpan: TimeSpan): Promise<void> {
-        return new Promise<void>((resolve) => setTimeout(resolve, timeSpan.totalMilliseconds));
+    /** Waits for the given `TimeSpan` before resolving, or rejects once the token is canceled. */
+    static wait(timeSpan: TimeSpan, cancellationToken?: CancellationToken): Promise<void> {
+        if (!cancellationToken) {
+            return new Promise<void>((resolve) => setTimeout(resolve, timeSpan.totalMilliseconds));
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            if (cancellationToken.isCancellationRequested) {
+                reject(new CancellationError());
+                return;
+            }
+
+            let unregister = () => { };
+
+            const timeout = setTimeout(() => {
+                unregister();
+                resolve();
+            }, timeSpan.totalMilliseconds);
+
+            unregister = cancellationToken.register(() => {
+                clearTimeout(timeout);
+                reject(new CancellationError());
+            });
+        });
     }
 }
 
-/** Waits for the given `TimeSpan` before resolving. */
-export function Wait(timeSpan: TimeSpan): Promise<void> {
-    return Tasks.wait(timeSpan);
+/**
+ * Waits for the given `TimeSpan` before resolving.
+ * @param {TimeSpan} timeSpan - Duration to wait.
+ * @param {CancellationToken} [cancellationToken] - Token that interrupts the wait.
+ * @returns {Promise<void>} A promise that resolves after the delay or rejects with a `CancellationError` once the token is canceled.
+ */
+export function Wait(timeSpan: TimeSpan, cancellationToken?: CancellationToken): Promise<void> {
+    return Tasks.wait(timeSpan, cancellationToken);
 }
 
 /**
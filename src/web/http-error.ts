@@ -0,0 +1,96 @@
+﻿import { AxiosError } from 'axios';
+
+
+/**
+ * Describes a failed HTTP request after all retries were exhausted.
+ * `status` is undefined when no response was received, e.g. on network errors or timeouts.
+ */
+export class HttpError extends Error {
+    /**
+     * @param {string} message - The error message.
+     * @param {HttpErrorDetails} details - Details of the failed request.
+     */
+    constructor(message: string, private readonly details: HttpErrorDetails) {
+        super(message, { cause: details.cause });
+        this.name = 'HttpError';
+    }
+
+    /**
+     * Creates an HttpError from any error raised while sending a request.
+     * @param {unknown} error - The raised error, usually an `AxiosError`.
+     * @param {string} method - The HTTP method of the request.
+     * @param {string} url - The URL of the request.
+     * @param {number} attempts - The number of attempts made.
+     * @returns {HttpError} The typed error.
+     */
+    static from(error: unknown, method: string, url: string, attempts: number): HttpError {
+        if (error instanceof HttpError)
+            return error;
+
+        const axiosError = error instanceof AxiosError ? error : undefined;
+        const response = axiosError?.response;
+        const reason = error instanceof Error ? error.message : String(error);
+
+        return new HttpError(`${method.toUpperCase()} ${url} failed after ${attempts} attempt(s): ${reason}`, {
+            method: method.toUpperCase(),
+            url,
+            status: response?.status,
+            body: response?.data,
+            headers: response?.headers as Record<string, unknown> | undefined,
+            code: axiosError?.code,
+            attempts,
+            cause: error
+        });
+    }
+
+    /** The HTTP status code, if a response was received. */
+    get status(): number | undefined {
+        return this.details.status;
+    }
+
+    /** The response body, if a response was received. */
+    get body(): unknown {
+        return this.details.body;
+    }
+
+    /** The response headers, if a response was received. */
+    get headers(): Record<string, unknown> | undefined {
+        return this.details.headers;
+    }
+
+    /** The number of attempts made before giving up. */
+    get attempts(): number {
+        return this.details.attempts;
+    }
+
+    /** The HTTP method of the request. */
+    get method(): string {
+        return this.details.method;
+    }
+
+    /** The URL of the request. */
+    get url(): string {
+        return this.details.url;
+    }
+
+    /** The transport error code (e.g. `ECONNRESET`, `ECONNABORTED`), if any. */
+    get code(): string | undefined {
+        return this.details.code;
+    }
+
+    /** Returns whether the request failed without receiving a response. */
+    get isNetworkError(): boolean {
+        return this.details.status === undefined;
+    }
+}
+
+export type HttpErrorDetails = {
+    method: string,
+    url: string,
+    status?: number,
+    body?: unknown,
+    headers?: Record<string, unknown>,
+    code?: string,
+    attempts: number,
+    cause?: unknown
+}
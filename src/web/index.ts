@@ -1 +1,5 @@
-﻿export * from './rest-request';
+﻿export * from './http-error';
+export * from './pagination';
+export * from './response-cache';
+export * from './rest-request';
+export * from './retry-rules';
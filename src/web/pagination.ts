@@ -0,0 +1,281 @@
+﻿import { AxiosResponse } from 'axios';
+
+import { CancellationToken, Rate, RateLimiter } from 'dash-core';
+import { RestRequestConfig } from './rest-request';
+
+
+/** A single fetched page. */
+export type Page<TItem> = {
+    /** The items extracted from the page. */
+    items: TItem[],
+
+    /** The response the page was extracted from. */
+    response: AxiosResponse,
+
+    /** The configuration the page was requested with. */
+    config: RestRequestConfig,
+
+    /** The zero-based index of the page. */
+    index: number
+}
+
+/**
+ * Decides how the first page is requested and how to get from one page to the next.
+ */
+export interface PaginationStrategy {
+    /**
+     * Returns the configuration of the first page request.
+     * @param {RestRequestConfig} config - The base request configuration.
+     */
+    first(config: RestRequestConfig): RestRequestConfig;
+
+    /**
+     * Returns the configuration of the next page request.
+     * @param {Page<unknown>} page - The page that was just fetched.
+     * @returns {RestRequestConfig | undefined} The next request, or undefined if this was the last page.
+     */
+    next(page: Page<unknown>): RestRequestConfig | undefined;
+}
+
+/**
+ * Walks pages through `offset` / `limit` query parameters. Stops at the first empty page, or once the offset reaches the
+ * total reported by the response. Short pages do not end the walk, since servers may cap the limit below the requested one.
+ */
+export class OffsetPagination implements PaginationStrategy {
+    /**
+     * @param {number} [limit=100] - The number of items requested per page.
+     * @param {string} [offsetParam='offset'] - The name of the offset query parameter.
+     * @param {string} [limitParam='limit'] - The name of the limit query parameter.
+     * @param {(body: any) => number | undefined | null} [total] - Optional reader of the total number of items from the response body.
+     */
+    constructor(
+        private readonly limit: number = 100,
+        private readonly offsetParam: string = 'offset',
+        private readonly limitParam: string = 'limit',
+        private readonly total?: (body: any) => number | undefined | null) {
+    }
+
+    first(config: RestRequestConfig): RestRequestConfig {
+        return withParams(config, { [this.offsetParam]: 0, [this.limitParam]: this.limit });
+    }
+
+    next(page: Page<unknown>): RestRequestConfig | undefined {
+        if (page.items.length === 0)
+            return undefined;
+
+        const offset = Number(page.config.params?.[this.offsetParam] ?? 0) + page.items.length;
+        const total = this.total?.(page.response.data);
+
+        if (typeof total === 'number' && offset >= total)
+            return undefined;
+
+        return withParams(page.config, { [this.offsetParam]: offset });
+    }
+}
+
+/**
+ * Walks pages through a page number query parameter. Stops at the first empty page,
+ * or at the first page shorter than the page size when one is given.
+ */
+export class PageNumberPagination implements PaginationStrategy {
+    /**
+     * @param {number} [firstPage=1] - The number of the first page.
+     * @param {string} [pageParam='page'] - The name of the page number query parameter.
+     * @param {number} [pageSize] - Optional page size sent in `sizeParam`.
+     * @param {string} [sizeParam='per_page'] - The name of the page size query parameter.
+     */
+    constructor(private readonly firstPage: number = 1, private readonly pageParam: string = 'page', private readonly pageSize?: number, private readonly sizeParam: string = 'per_page') {
+    }
+
+    first(config: RestRequestConfig): RestRequestConfig {
+        const params: Record<string, unknown> = { [this.pageParam]: this.firstPage };
+
+        if (this.pageSize !== undefined)
+            params[this.sizeParam] = this.pageSize;
+
+        return withParams(config, params);
+    }
+
+    next(page: Page<unknown>): RestRequestConfig | undefined {
+        if (page.items.length === 0 || (this.pageSize !== undefined && page.items.length < this.pageSize))
+            return undefined;
+
+        return withParams(page.config, { [this.pageParam]: this.firstPage + page.index + 1 });
+    }
+}
+
+/**
+ * Walks pages through a cursor token returned in the response body. Stops when no cursor is returned.
+ */
+export class CursorPagination implements PaginationStrategy {
+    /**
+     * @param {(body: any) => string | undefined | null} cursor - Reads the next cursor from the response body.
+     * @param {string} [cursorParam='cursor'] - The name of the cursor query parameter.
+     */
+    constructor(private readonly cursor: (body: any) => string | undefined | null, private readonly cursorParam: string = 'cursor') {
+    }
+
+    first(config: RestRequestConfig): RestRequestConfig {
+        return config;
+    }
+
+    next(page: Page<unknown>): RestRequestConfig | undefined {
+        const cursor = this.cursor(page.response.data);
+
+        if (cursor === undefined || cursor === null || cursor === '')
+            return undefined;
+
+        return withParams(page.config, { [this.cursorParam]: cursor });
+    }
+}
+
+/**
+ * Follows the `rel="next"` URL of the RFC 5988 `Link` response header. Stops when there is no next link.
+ * Relative links are resolved against the URL of the page they were returned with.
+ */
+export class LinkHeaderPagination implements PaginationStrategy {
+    first(config: RestRequestConfig): RestRequestConfig {
+        return config;
+    }
+
+    next(page: Page<unknown>): RestRequestConfig | undefined {
+        const header = page.response.headers?.['link'];
+        const url = typeof header === 'string' ? parseLinkHeader(header).get('next') : undefined;
+
+        if (!url)
+            return undefined;
+
+        // The next link already carries every query parameter
+        return { ...page.config, url: resolveUrl(url, page), params: undefined };
+    }
+}
+
+export type PaginateOptions<TItem> = {
+    /** How pages are requested. */
+    strategy: PaginationStrategy,
+
+    /** Extracts the items from a response body (default treats the body as the item array). */
+    items?: (body: any) => TItem[],
+
+    /** Base configuration of every page request. */
+    config?: RestRequestConfig,
+
+    /** Optional rate the page requests are paced to. */
+    rate?: Rate,
+
+    /** Optional maximum number of pages fetched. */
+    maxPages?: number,
+
+    /** Optional maximum number of items yielded; no further page is fetched once it is reached. */
+    maxItems?: number,
+}
+
+/**
+ * Lazily fetches pages of a paged API. Iterating yields the items; `pages()` yields whole pages.
+ */
+export class Paginator<TItem> implements AsyncIterable<TItem> {
+    /**
+     * @param {(config: RestRequestConfig, cancellationToken?: CancellationToken) => Promise<AxiosResponse>} fetch - Sends a single page request.
+     * @param {PaginateOptions<TItem>} options - How pages are requested and read.
+     * @param {CancellationToken} [cancellationToken] - Optional token that stops the iteration.
+     */
+    constructor(
+        private readonly fetch: (config: RestRequestConfig, cancellationToken?: CancellationToken) => Promise<AxiosResponse>,
+        private readonly options: PaginateOptions<TItem>,
+        private readonly cancellationToken?: CancellationToken) {
+    }
+
+    /**
+     * Iterates over whole pages.
+     * @returns {AsyncIterable<Page<TItem>>} The pages in order.
+     */
+    public async *pages(): AsyncIterable<Page<TItem>> {
+        const limiter = this.options.rate ? new RateLimiter(this.options.rate, { burst: 1 }) : undefined;
+        const extract = this.options.items ?? ((body: any) => Array.isArray(body) ? body : []);
+
+        const { maxPages, maxItems } = this.options;
+
+        let config: RestRequestConfig | undefined = this.options.strategy.first(this.options.config ?? {});
+        let count = 0;
+
+        for (let index = 0; config && (maxPages === undefined || index < maxPages) && (maxItems === undefined || count < maxItems); index++) {
+            this.cancellationToken?.throwIfCancellationRequested();
+            await limiter?.acquire(1, this.cancellationToken);
+
+            const response = await this.fetch(config, this.cancellationToken);
+            let items: TItem[] = extract(response.data) ?? [];
+
+            if (maxItems !== undefined)
+                items = items.slice(0, maxItems - count);
+
+            const page: Page<TItem> = { items, response, config, index };
+            count += items.length;
+
+            yield page;
+
+            config = this.options.strategy.next(page);
+        }
+    }
+
+    /**
+     * Collects every item into an array.
+     * @returns {Promise<TItem[]>} All items across all pages.
+     */
+    public async toArray(): Promise<TItem[]> {
+        const items: TItem[] = [];
+
+        for await (const item of this)
+            items.push(item);
+
+        return items;
+    }
+
+    async *[Symbol.asyncIterator](): AsyncIterator<TItem> {
+        for await (const page of this.pages())
+            yield* page.items;
+    }
+}
+
+function withParams(config: RestRequestConfig, params: Record<string, unknown>): RestRequestConfig {
+    return { ...config, params: { ...config.params, ...params } };
+}
+
+function resolveUrl(url: string, page: Page<unknown>): string {
+    const placeholder = 'http://placeholder.invalid';
+
+    try {
+        // Relative request URLs are appended to the base URL, as axios does
+        const requestUrl = page.config.url ?? '';
+        const baseUrl = page.response.config?.baseURL;
+        const target = /^[a-z][a-z\d+\-.]*:\/\//i.test(requestUrl) || !baseUrl
+            ? requestUrl
+            : `${baseUrl.replace(/\/+$/, '')}/${requestUrl.replace(/^\/+/, '')}`;
+        const resolved = new URL(url, new URL(target, placeholder));
+
+        // Without an absolute base the link stays relative, to be resolved by the client like the first URL
+        return resolved.origin === placeholder ? resolved.pathname + resolved.search + resolved.hash : resolved.toString();
+    } catch {
+        return url;
+    }
+}
+
+function parseLinkHeader(header: string): Map<string, string> {
+    const links = new Map<string, string>();
+
+    for (const part of header.split(/,(?=\s*<)/)) {
+        const match = part.match(/<([^>]*)>(.*)/);
+
+        if (!match)
+            continue;
+
+        const rel = match[2].match(/rel\s*=\s*"?([^";]+)"?/i);
+
+        if (!rel)
+            continue;
+
+        for (const name of rel[1].trim().split(/\s+/))
+            links.set(name.toLowerCase(), match[1]);
+    }
+
+    return links;
+}
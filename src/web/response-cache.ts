@@ -0,0 +1,414 @@
+﻿import { AxiosResponse } from 'axios';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { CancellationError, CancellationToken, CancellationTokenSource, IOFile, TimeSpan } from 'dash-core';
+
+
+/** A response as kept by a `CacheStore`. */
+export type CachedResponse = {
+    status: number,
+    statusText: string,
+    headers: Record<string, string>,
+    data: unknown,
+
+    /** Unix time in milliseconds when the response was stored or last revalidated. */
+    storedAt: number,
+
+    /** Unix time in milliseconds after which the response has to be revalidated. */
+    expiresAt: number,
+
+    /** Hash of the request headers named in `Vary` and of `Authorization`; a request with other values does not use the response. */
+    variant?: string
+}
+
+/**
+ * Persists cached responses by key.
+ */
+export interface CacheStore {
+    get(key: string): Promise<CachedResponse | undefined>;
+    set(key: string, entry: CachedResponse): Promise<void>;
+    delete(key: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+/**
+ * Keeps cached responses in memory, evicting the least recently used ones beyond a capacity.
+ */
+export class MemoryCacheStore implements CacheStore {
+    private readonly entries = new Map<string, CachedResponse>();
+
+    /**
+     * @param {number} [capacity=500] - The maximum number of responses kept.
+     */
+    constructor(private readonly capacity: number = 500) {
+        if (capacity <= 0) {
+            throw new Error('Cache capacity must be a positive number');
+        }
+    }
+
+    /** Gets the number of responses currently kept. */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    async get(key: string): Promise<CachedResponse | undefined> {
+        const entry = this.entries.get(key);
+
+        if (!entry)
+            return undefined;
+
+        // Re-insert to mark the entry as most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+
+        return structuredClone(entry);
+    }
+
+    async set(key: string, entry: CachedResponse): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, structuredClone(entry));
+
+        while (this.entries.size > this.capacity) {
+            const oldest = this.entries.keys().next().value!;
+            this.entries.delete(oldest);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entries.delete(key);
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Keeps cached responses as JSON files in a directory, one file per key.
+ */
+export class FileCacheStore implements CacheStore {
+    /**
+     * @param {string} directory - The directory holding the cache files. It is created on first write.
+     */
+    constructor(private readonly directory: string) {
+    }
+
+    async get(key: string): Promise<CachedResponse | undefined> {
+        const filePath = this.getPath(key);
+
+        if (!await IOFile.exists(filePath))
+            return undefined;
+
+        try {
+            return JSON.parse(await IOFile.read(filePath)) as CachedResponse;
+        } catch {
+            return undefined;
+        }
+    }
+
+    async set(key: string, entry: CachedResponse): Promise<void> {
+        await fs.mkdir(this.directory, { recursive: true });
+        await IOFile.writeAtomic(this.getPath(key), JSON.stringify(entry));
+    }
+
+    async delete(key: string): Promise<void> {
+        const filePath = this.getPath(key);
+
+        if (await IOFile.exists(filePath))
+            await IOFile.delete(filePath);
+    }
+
+    async clear(): Promise<void> {
+        if (!await IOFile.exists(this.directory))
+            return;
+
+        const files = await fs.readdir(this.directory);
+
+        for (const file of files.filter((item) => item.endsWith('.json')))
+            await IOFile.delete(path.join(this.directory, file));
+    }
+
+    private getPath(key: string): string {
+        const hash = createHash('sha256').update(key).digest('hex');
+        return path.join(this.directory, `${hash}.json`);
+    }
+}
+
+/** Sends the request of a cache miss or revalidation. The request has to accept a 304 status. */
+export type CacheSender<T> = (validators: Record<string, string>, cancellationToken: CancellationToken) => Promise<AxiosResponse<T>>;
+
+/** The request a cached response is looked up for. */
+export type CacheRequest = {
+    /** The request headers; those named in `Vary` and `Authorization` select the cached response. */
+    headers?: Record<string, unknown>,
+
+    /** Token that abandons the wait of this caller. The shared request is canceled once every waiting caller has canceled. */
+    cancellationToken?: CancellationToken,
+}
+
+type inFlightRequest = {
+    key: string,
+    task: Promise<AxiosResponse>,
+    source: CancellationTokenSource,
+    waiting: number
+}
+
+type responseCacheOptions = {
+    /** Where responses are kept. */
+    store: CacheStore,
+
+    /** How long a response stays fresh when the server does not say otherwise. */
+    ttl: TimeSpan,
+
+    /** Whether `Cache-Control` and `Expires` response headers override the TTL. */
+    respectCacheControl: boolean,
+}
+
+/**
+ * Caches GET responses, revalidates stale ones with `If-None-Match` / `If-Modified-Since`
+ * and collapses concurrent identical requests into one. A cached response is only used for requests
+ * with the same `Authorization` header and the same values of the headers named in its `Vary` header.
+ */
+export class ResponseCache {
+    private readonly options: responseCacheOptions;
+    private readonly inFlight = new Map<string, inFlightRequest>();
+
+    private readonly defaultOptions: responseCacheOptions = {
+        store: new MemoryCacheStore(),
+        ttl: TimeSpan.fromMinutes(5),
+        respectCacheControl: true
+    }
+
+    /**
+     * Creates an instance of the ResponseCache class.
+     * @param {Partial<responseCacheOptions>} [options] - Configuration options for the cache.
+     * @param {CacheStore} [options.store] - Where responses are kept (default is an in-memory LRU store).
+     * @param {TimeSpan} [options.ttl] - How long a response stays fresh when the server does not say otherwise (default is 5 minutes).
+     * @param {boolean} [options.respectCacheControl] - Whether `Cache-Control` and `Expires` headers override the TTL (default is true).
+     */
+    constructor(options?: Partial<responseCacheOptions>) {
+        this.options = { ...this.defaultOptions, ...options };
+    }
+
+    /**
+     * Returns a fresh cached response, or sends the request and caches its response.
+     * Concurrent calls with the same key and the same request headers share a single request.
+     * @param {string} key - The cache key, usually the full request URL.
+     * @param {CacheSender<T>} send - Sends the request with the given revalidation headers. The request has to accept a 304 status.
+     * @param {CacheRequest} [request] - The headers of the request and the token of the caller.
+     * @returns {Promise<AxiosResponse<T>>} The cached or received response. Rejects with a `CancellationError` once the caller's token is canceled.
+     */
+    public fetch<T>(key: string, send: CacheSender<T>, request?: CacheRequest): Promise<AxiosResponse<T>> {
+        const headers = toHeaderRecord(request?.headers);
+        const cancellationToken = request?.cancellationToken ?? CancellationToken.none;
+
+        if (cancellationToken.isCancellationRequested)
+            return Promise.reject(new CancellationError());
+
+        const inFlightKey = `${key}\n${hashHeaders(Object.entries(headers))}`;
+        let pending = this.inFlight.get(inFlightKey);
+
+        if (!pending) {
+            const source = new CancellationTokenSource();
+            const task = this.fetchOrRevalidate(key, headers, send, source.token)
+                .finally(() => this.release(created));
+
+            const created: inFlightRequest = { key: inFlightKey, task, source, waiting: 0 };
+
+            pending = created;
+            this.inFlight.set(inFlightKey, pending);
+        }
+
+        return this.join(pending, cancellationToken) as Promise<AxiosResponse<T>>;
+    }
+
+    /**
+     * Removes a cached response.
+     * @param {string} key - The cache key.
+     */
+    public invalidate(key: string): Promise<void> {
+        return this.options.store.delete(key);
+    }
+
+    /**
+     * Removes every cached response.
+     */
+    public clear(): Promise<void> {
+        return this.options.store.clear();
+    }
+
+    /**
+     * Waits for a shared request on behalf of one caller. Its token only abandons its own wait,
+     * unless it is the last caller still waiting.
+     */
+    private join(pending: inFlightRequest, cancellationToken: CancellationToken): Promise<AxiosResponse> {
+        pending.waiting++;
+
+        return new Promise<AxiosResponse>((resolve, reject) => {
+            let settled = false;
+
+            const unregister = cancellationToken.register(() => {
+                if (settled)
+                    return;
+
+                settled = true;
+                reject(new CancellationError());
+
+                // Nobody waits for the shared request anymore; later callers start a new one
+                if (--pending.waiting === 0) {
+                    this.release(pending);
+                    pending.source.cancel();
+                }
+            });
+
+            pending.task.then(
+                (response) => { if (!settled) { settled = true; resolve(response); } },
+                (error) => { if (!settled) { settled = true; reject(error); } })
+                .finally(() => { unregister(); pending.source.dispose(); });
+        });
+    }
+
+    private release(pending: inFlightRequest): void {
+        if (this.inFlight.get(pending.key) === pending)
+            this.inFlight.delete(pending.key);
+    }
+
+    private async fetchOrRevalidate<T>(key: string, headers: Record<string, string>, send: CacheSender<T>, cancellationToken: CancellationToken): Promise<AxiosResponse<T>> {
+        const stored = await this.options.store.get(key);
+
+        // A response stored for other credentials or other varying headers is neither used nor revalidated
+        const entry = stored && stored.variant === getVariant(stored.headers['vary'], headers) ? stored : undefined;
+
+        if (entry && entry.expiresAt > Date.now())
+            return toResponse<T>(entry);
+
+        let response = await send(entry ? getValidators(entry) : {}, cancellationToken);
+
+        // Without a stored response to refresh, a 304 carries nothing to return; ask for the full response instead
+        if (response.status === 304 && !entry)
+            response = await send({}, cancellationToken);
+
+        if (response.status === 304 && entry) {
+            const refreshedHeaders = { ...entry.headers, ...toHeaderRecord(response.headers) };
+            const refreshed = { ...entry, headers: refreshedHeaders, storedAt: Date.now(), expiresAt: this.getExpiresAt(refreshedHeaders) };
+
+            await this.options.store.set(key, refreshed);
+
+            return { ...toResponse<T>(refreshed), config: response.config, request: response.request };
+        }
+
+        const responseHeaders = toHeaderRecord(response.headers);
+
+        if (response.status === 200 && this.isStorable(responseHeaders)) {
+            await this.options.store.set(key, {
+                status: response.status,
+                statusText: response.statusText,
+                headers: responseHeaders,
+                data: response.data,
+                storedAt: Date.now(),
+                expiresAt: this.getExpiresAt(responseHeaders),
+                variant: getVariant(responseHeaders['vary'], headers)
+            });
+        }
+
+        return response;
+    }
+
+    private isStorable(headers: Record<string, string>): boolean {
+        // `Vary: *` means no later request can be known to match
+        if (headers['vary']?.trim() === '*')
+            return false;
+
+        if (!this.options.respectCacheControl)
+            return true;
+
+        return !parseCacheControl(headers['cache-control']).has('no-store');
+    }
+
+    private getExpiresAt(headers: Record<string, string>): number {
+        const now = Date.now();
+
+        if (!this.options.respectCacheControl)
+            return now + this.options.ttl.totalMilliseconds;
+
+        const directives = parseCacheControl(headers['cache-control']);
+
+        if (directives.has('no-cache'))
+            return now;
+
+        const maxAge = Number(directives.get('max-age'));
+
+        if (directives.has('max-age') && !isNaN(maxAge))
+            return now + maxAge * 1000;
+
+        const expires = Date.parse(headers['expires'] ?? '');
+
+        if (!isNaN(expires))
+            return expires;
+
+        return now + this.options.ttl.totalMilliseconds;
+    }
+}
+
+function getValidators(entry: CachedResponse): Record<string, string> {
+    const validators: Record<string, string> = {};
+
+    if (entry.headers['etag'])
+        validators['If-None-Match'] = entry.headers['etag'];
+
+    if (entry.headers['last-modified'])
+        validators['If-Modified-Since'] = entry.headers['last-modified'];
+
+    return validators;
+}
+
+/**
+ * Hashes the request values of the headers named in `Vary`, and of `Authorization`, so that credentials are not stored in the cache.
+ */
+function getVariant(vary: string | undefined, headers: Record<string, string>): string | undefined {
+    const names = new Set(['authorization', ...(vary ?? '').split(',').map((name) => name.trim().toLowerCase()).filter(Boolean)]);
+    const values = [...names].sort().filter((name) => headers[name] !== undefined).map((name): [string, string] => [name, headers[name]]);
+
+    return values.length > 0 ? hashHeaders(values) : undefined;
+}
+
+function hashHeaders(headers: [string, string][]): string {
+    const sorted = [...headers].sort(([a], [b]) => a.localeCompare(b));
+    return createHash('sha256').update(JSON.stringify(sorted)).digest('hex');
+}
+
+function parseCacheControl(header?: string): Map<string, string | undefined> {
+    const directives = new Map<string, string | undefined>();
+
+    for (const raw of (header ?? '').split(',')) {
+        const [name, value] = raw.trim().split('=');
+
+        if (name)
+            directives.set(name.toLowerCase(), value?.replace(/^"|"$/g, ''));
+    }
+
+    return directives;
+}
+
+function toHeaderRecord(headers: AxiosResponse['headers'] | Record<string, unknown> | undefined): Record<string, string> {
+    const record: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(headers ?? {})) {
+        if (value !== undefined && value !== null && typeof value !== 'function')
+            record[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : String(value);
+    }
+
+    return record;
+}
+
+function toResponse<T>(entry: CachedResponse): AxiosResponse<T> {
+    return {
+        status: entry.status,
+        statusText: entry.statusText,
+        headers: entry.headers,
+        data: entry.data as T,
+        config: { headers: {} } as AxiosResponse['config']
+    };
+}
@@ -1,76 +1,366 @@
-﻿import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+﻿import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, GenericAbortSignal, RawAxiosRequestHeaders } from 'axios';
 
-import { ExponentialBackoff, ExponentialBackoffOptions, TimeSpan } from 'dash-core';
+import {
+    CancellationError,
+    CancellationToken,
+    CircuitBreaker,
+    CircuitOpenError,
+    ExponentialBackoff,
+    ExponentialBackoffOptions,
+    MetricsRegistry,
+    RateLimiter,
+    RetryPolicy,
+    ServiceLogger,
+    TimeSpan
+} from 'dash-core';
+import { HttpError } from './http-error';
+import { PaginateOptions, Paginator } from './pagination';
+import { ResponseCache } from './response-cache';
+import { HttpRetryRules } from './retry-rules';
 
 
+type restRequestOptions = {
+    /** Base URL prepended to relative request URLs. */
+    baseUrl?: string,
+
+    /** Headers sent with every request. */
+    headers?: Record<string, string>,
+
+    /** Default timeout of a single attempt. */
+    timeout?: TimeSpan,
+
+    /** Configuration of the default exponential backoff. */
+    backoff: ExponentialBackoffOptions,
+
+    /** Retry policy used instead of the default exponential backoff. */
+    retryPolicy?: RetryPolicy,
+
+    /** Rules deciding which failures are retried and how `Retry-After` is honoured. */
+    retryRules: HttpRetryRules,
+
+    /** Circuit breaker every attempt is routed through. */
+    circuitBreaker?: CircuitBreaker,
+
+    /** Rate limiter every attempt acquires a permit from. */
+    rateLimiter?: RateLimiter,
+
+    /** Cache for GET responses. */
+    cache?: ResponseCache,
+
+    /** Logger for retries and failed requests. */
+    logger?: ServiceLogger,
+
+    /** Registry recording request durations and retries. */
+    metrics?: MetricsRegistry,
+}
+
+/** Request configuration accepted by `RestRequest`, with the timeout expressed as a `TimeSpan`. */
+export type RestRequestConfig = Omit<AxiosRequestConfig, 'timeout'> & {
+    timeout?: TimeSpan
+}
+
+/** Transforms the request configuration before every attempt. */
+export type RequestInterceptor = (config: AxiosRequestConfig) => AxiosRequestConfig | Promise<AxiosRequestConfig>;
+
+/** Transforms a successful response before it is returned. */
+export type ResponseInterceptor = (response: AxiosResponse) => AxiosResponse | Promise<AxiosResponse>;
+
 /**
- * Provides HTTP GET and POST requests with retries using exponential backoff.
+ * Provides HTTP requests with retries using exponential backoff.
+ * Which failures are retried is decided by `HttpRetryRules`; requests that fail after all retries reject with an `HttpError`.
  */
 export class RestRequest {
-    private readonly throwException: boolean;
-    private backoff: ExponentialBackoff;
+    private readonly options: restRequestOptions;
+    private readonly client: AxiosInstance;
+    private readonly retryPolicy: RetryPolicy;
+
+    private readonly requestInterceptors: RequestInterceptor[] = [];
+    private readonly responseInterceptors: ResponseInterceptor[] = [];
+
+    private readonly defaultOptions: restRequestOptions = {
+        backoff: {
+            initialDelay: TimeSpan.fromSeconds(5),
+            maxDelay: TimeSpan.fromSeconds(30),
+            factor: 2
+        },
+        retryRules: new HttpRetryRules()
+    }
 
     /**
      * Creates an instance of the RestRequest class.
-     * @param {boolean} [throwException=false] - Whether to throw the error after retries fail. If false, the promise will reject.
+     * @param {restRequestOptions} [options] - Configuration options for the client.
+     * @param {string} [options.baseUrl] - Base URL prepended to relative request URLs.
+     * @param {Record<string, string>} [options.headers] - Headers sent with every request.
+     * @param {TimeSpan} [options.timeout] - Default timeout of a single attempt.
+     * @param {ExponentialBackoffOptions} [options.backoff] - The configuration for the exponential backoff algorithm.
+     *      If not provided, defaults will be used (initial delay: 5 seconds, max delay: 30 seconds, factor: 2), i.e. 3 attempts.
+     * @param {RetryPolicy} [options.retryPolicy] - Retry policy used instead of the exponential backoff.
+     * @param {HttpRetryRules} [options.retryRules] - Rules deciding which failures are retried.
+     *      If not provided, only network errors, 408, 429 and 5xx are retried, POST and PATCH only with an idempotency key.
+     * @param {CircuitBreaker} [options.circuitBreaker] - Optional circuit breaker every request attempt is routed through.
+     * @param {RateLimiter} [options.rateLimiter] - Optional rate limiter every request attempt acquires a permit from.
+     * @param {ResponseCache} [options.cache] - Optional cache for GET responses, keyed by the full request URL.
+     * @param {ServiceLogger} [options.logger] - Optional logger to log retries and failed requests.
+     * @param {MetricsRegistry} [options.metrics] - Optional registry recording the duration of every attempt in `http_client_request_duration_seconds`
+     *      and the retries of the backoff or custom retry policy under the `rest-request` policy label.
+     */
+    constructor(options?: Partial<restRequestOptions>);
+
+    /**
+     * Creates an instance of the RestRequest class with the positional arguments of earlier versions.
+     * @deprecated Pass `{ backoff }` instead. Failed requests always reject with an `HttpError`, so `throwException` is ignored.
+     * @param {boolean} [throwException=false] - Ignored; kept for compatibility.
      * @param {ExponentialBackoffOptions} [backoffOption] - The configuration for the exponential backoff algorithm.
-     *      If not provided, defaults will be used (initial delay: 5 seconds, max delay: 30 seconds, factor: 2).
      */
-    constructor(throwException: boolean = false, backoffOption?: ExponentialBackoffOptions) {
-        this.throwException = throwException;
+    constructor(throwException?: boolean, backoffOption?: ExponentialBackoffOptions);
 
-        if (!backoffOption)
-            backoffOption = {
-                initialDelay: TimeSpan.fromSeconds(5),
-                maxDelay: TimeSpan.fromSeconds(30),
-                factor: 2
-            };
+    constructor(options?: Partial<restRequestOptions> | boolean, backoffOption?: ExponentialBackoffOptions) {
+        if (typeof options === 'boolean')
+            options = backoffOption ? { backoff: backoffOption } : {};
+
+        this.options = { ...this.defaultOptions, ...options };
+
+        this.client = axios.create({
+            baseURL: this.options.baseUrl,
+            headers: this.options.headers
+        });
 
-        this.backoff = new ExponentialBackoff(backoffOption);
+        const retryRules = this.options.retryRules;
+        const metrics = this.options.metrics ? { metrics: this.options.metrics, name: 'rest-request' } : {};
+
+        this.retryPolicy = (this.options.retryPolicy ?? new ExponentialBackoff(this.options.backoff)).extend({
+            ...metrics,
+            shouldRetry: (error) => retryRules.shouldRetry(error),
+            retryAfter: (error) => retryRules.getRetryAfter(error),
+            onRetry: ({ attempt, delay, error }) => this.options.logger?.warning(
+                `Request attempt ${attempt} failed, retrying in ${delay.totalMilliseconds} ms: ${error instanceof Error ? error.message : String(error)}`)
+        });
+    }
+
+    /**
+     * Adds an interceptor that transforms the request configuration before every attempt.
+     * Cached GET requests also run it once up front, so the cached response is selected by the headers it sets.
+     * @param {RequestInterceptor} interceptor - The interceptor to add.
+     * @returns {() => void} A function that removes the interceptor.
+     */
+    public useRequestInterceptor(interceptor: RequestInterceptor): () => void {
+        this.requestInterceptors.push(interceptor);
+        return () => removeItem(this.requestInterceptors, interceptor);
+    }
+
+    /**
+     * Adds an interceptor that transforms every successful response.
+     * @param {ResponseInterceptor} interceptor - The interceptor to add.
+     * @returns {() => void} A function that removes the interceptor.
+     */
+    public useResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+        this.responseInterceptors.push(interceptor);
+        return () => removeItem(this.responseInterceptors, interceptor);
     }
 
     /**
      * Makes an HTTP GET request to the specified URL with the optional configuration and retries on failure.
-     * The request is retried using exponential backoff.
      * @param {string} url - The URL to send the GET request to.
-     * @param {AxiosRequestConfig} [config] - The optional configuration for the GET request.
+     * @param {RestRequestConfig} [config] - The optional configuration for the GET request.
+     * @param {CancellationToken} [cancellationToken] - Optional token that aborts the request and pending retries.
      * @returns {Promise<AxiosResponse<T>>} A promise that resolves with the response of the GET request.
      */
-    public get<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-        return new Promise<AxiosResponse<T>>((resolve, reject) => {
-            this.backoff.execute(() => axios.get<T>(url, config))
-                .then((response) => {
-                    resolve(response);
-                })
-                .catch((error) => {
-                    reject(error);
-
-                    if (this.throwException)
-                        throw error;
-                });
-        });
+    public get<T = any>(url: string, config?: RestRequestConfig, cancellationToken?: CancellationToken): Promise<AxiosResponse<T>> {
+        return this.request<T>({ ...config, method: 'get', url }, cancellationToken);
+    }
+
+    /**
+     * Makes an HTTP HEAD request to the specified URL with the optional configuration and retries on failure.
+     * @param {string} url - The URL to send the HEAD request to.
+     * @param {RestRequestConfig} [config] - The optional configuration for the HEAD request.
+     * @param {CancellationToken} [cancellationToken] - Optional token that aborts the request and pending retries.
+     * @returns {Promise<AxiosResponse<T>>} A promise that resolves with the response of the HEAD request.
+     */
+    public head<T = any>(url: string, config?: RestRequestConfig, cancellationToken?: CancellationToken): Promise<AxiosResponse<T>> {
+        return this.request<T>({ ...config, method: 'head', url }, cancellationToken);
+    }
+
+    /**
+     * Makes an HTTP DELETE request to the specified URL with the optional configuration and retries on failure.
+     * @param {string} url - The URL to send the DELETE request to.
+     * @param {RestRequestConfig} [config] - The optional configuration for the DELETE request.
+     * @param {CancellationToken} [cancellationToken] - Optional token that aborts the request and pending retries.
+     * @returns {Promise<AxiosResponse<T>>} A promise that resolves with the response of the DELETE request.
+     */
+    public delete<T = any>(url: string, config?: RestRequestConfig, cancellationToken?: CancellationToken): Promise<AxiosResponse<T>> {
+        return this.request<T>({ ...config, method: 'delete', url }, cancellationToken);
     }
 
     /**
      * Makes an HTTP POST request to the specified URL with the provided data and optional configuration and retries on failure.
-     * The request is retried using exponential backoff.
      * @param {string} url - The URL to send the POST request to.
      * @param {any} [data] - The optional data to send in the body of the POST request.
-     * @param {AxiosRequestConfig} [config] - The optional configuration for the POST request.
+     * @param {RestRequestConfig} [config] - The optional configuration for the POST request.
+     * @param {CancellationToken} [cancellationToken] - Optional token that aborts the request and pending retries.
      * @returns {Promise<AxiosResponse<T>>} A promise that resolves with the response of the POST request.
      */
-    public post<T = any>(url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-        return new Promise<AxiosResponse<T>>((resolve, reject) => {
-            this.backoff.execute(() => axios.post<T>(url, data, config))
-                .then((response) => {
-                    resolve(response);
-                })
-                .catch((error) => {
-                    reject(error);
-
-                    if (this.throwException)
-                        throw error;
-                });
-        });
+    public post<T = any>(url: string, data?: any, config?: RestRequestConfig, cancellationToken?: CancellationToken): Promise<AxiosResponse<T>> {
+        return this.request<T>({ ...config, method: 'post', url, data }, cancellationToken);
+    }
+
+    /**
+     * Makes an HTTP PUT request to the specified URL with the provided data and optional configuration and retries on failure.
+     * @param {string} url - The URL to send the PUT request to.
+     * @param {any} [data] - The optional data to send in the body of the PUT request.
+     * @param {RestRequestConfig} [config] - The optional configuration for the PUT request.
+     * @param {CancellationToken} [cancellationToken] - Optional token that aborts the request and pending retries.
+     * @returns {Promise<AxiosResponse<T>>} A promise that resolves with the response of the PUT request.
+     */
+    public put<T = any>(url: string, data?: any, config?: RestRequestConfig, cancellationToken?: CancellationToken): Promise<AxiosResponse<T>> {
+        return this.request<T>({ ...config, method: 'put', url, data }, cancellationToken);
     }
+
+    /**
+     * Makes an HTTP PATCH request to the specified URL with the provided data and optional configuration and retries on failure.
+     * @param {string} url - The URL to send the PATCH request to.
+     * @param {any} [data] - The optional data to send in the body of the PATCH request.
+     * @param {RestRequestConfig} [config] - The optional configuration for the PATCH request.
+     * @param {CancellationToken} [cancellationToken] - Optional token that aborts the request and pending retries.
+     * @returns {Promise<AxiosResponse<T>>} A promise that resolves with the response of the PATCH request.
+     */
+    public patch<T = any>(url: string, data?: any, config?: RestRequestConfig, cancellationToken?: CancellationToken): Promise<AxiosResponse<T>> {
+        return this.request<T>({ ...config, method: 'patch', url, data }, cancellationToken);
+    }
+
+    /**
+     * Walks a paged API lazily. Every page request is retried like any other request.
+     * @param {string} url - The URL of the first page.
+     * @param {PaginateOptions<TItem>} options - How pages are requested and read.
+     * @param {PaginationStrategy} options.strategy - The pagination strategy, e.g. `OffsetPagination` or `LinkHeaderPagination`.
+     * @param {(body: any) => TItem[]} [options.items] - Extracts the items from a response body (default treats the body as the item array).
+     * @param {RestRequestConfig} [options.config] - Base configuration of every page request.
+     * @param {Rate} [options.rate] - Optional rate the page requests are paced to.
+     * @param {number} [options.maxPages] - Optional maximum number of pages fetched.
+     * @param {number} [options.maxItems] - Optional maximum number of items yielded.
+     * @param {CancellationToken} [cancellationToken] - Optional token that stops the iteration.
+     * @returns {Paginator<TItem>} An async iterable of items; `pages()` iterates whole pages.
+     */
+    public paginate<TItem = any>(url: string, options: PaginateOptions<TItem>, cancellationToken?: CancellationToken): Paginator<TItem> {
+        const config: RestRequestConfig = { method: 'get', ...options.config, url };
+
+        return new Paginator<TItem>((page, token) => this.request(page, token), { ...options, config }, cancellationToken);
+    }
+
+    /**
+     * Sends a request described by the configuration and retries on failure.
+     * @param {RestRequestConfig} config - The configuration of the request, including method and URL.
+     * @param {CancellationToken} [cancellationToken] - Optional token that aborts the request and pending retries.
+     * @returns {Promise<AxiosResponse<T>>} A promise that resolves with the response.
+     *      Rejects with an `HttpError` once all retries fail, with a `CancellationError` once the token is canceled
+     *      and with a `CircuitOpenError` while the circuit breaker is open.
+     */
+    public async request<T = any>(config: RestRequestConfig, cancellationToken?: CancellationToken): Promise<AxiosResponse<T>> {
+        if (!cancellationToken && config.signal)
+            cancellationToken = CancellationToken.fromAbortSignal(config.signal as AbortSignal);
+
+        config = this.options.retryRules.prepare(config);
+
+        const cache = this.options.cache;
+
+        if (!cache || (config.method ?? 'get').toLowerCase() !== 'get')
+            return this.execute<T>(config, cancellationToken);
+
+        // Interceptors may set the URL or credentials, so the cache entry is selected by the request they produce
+        const intercepted = await this.intercept(this.toRequestConfig(config));
+        const key = this.client.getUri({ url: intercepted.url, params: intercepted.params, paramsSerializer: intercepted.paramsSerializer });
+
+        // The cache owns revalidation, so conditional headers of the caller are replaced by those of the cached response
+        const headers = withoutConditionalHeaders({ ...this.options.headers, ...config.headers });
+
+        return cache.fetch<T>(key, (validators, token) => this.execute<T>({
+            ...config,
+            headers: { ...headers, ...validators },
+            validateStatus: (status) => (status >= 200 && status < 300) || status === 304
+        }, token), { headers: withoutConditionalHeaders({ ...this.options.headers, ...intercepted.headers }), cancellationToken });
+    }
+
+    private async execute<T>(config: RestRequestConfig, cancellationToken?: CancellationToken): Promise<AxiosResponse<T>> {
+        const method = config.method ?? 'get';
+        const url = config.url ?? '';
+
+        let attempts = 0;
+
+        try {
+            return await this.retryPolicy.execute((token) => {
+                attempts++;
+                return this.attempt<T>(config, token);
+            }, cancellationToken);
+        } catch (error) {
+            if (error instanceof CancellationError || error instanceof CircuitOpenError)
+                throw error;
+
+            const httpError = HttpError.from(error, method, url, attempts);
+            this.options.logger?.error(httpError.message);
+
+            throw httpError;
+        }
+    }
+
+    private async attempt<T>(config: RestRequestConfig, cancellationToken: CancellationToken): Promise<AxiosResponse<T>> {
+        await this.options.rateLimiter?.acquire(1, cancellationToken);
+
+        const send = () => this.send<T>(config, cancellationToken);
+
+        if (!this.options.circuitBreaker)
+            return send();
+
+        return this.options.circuitBreaker.execute(send);
+    }
+
+    private async send<T>(config: RestRequestConfig, cancellationToken: CancellationToken): Promise<AxiosResponse<T>> {
+        const requestConfig = await this.intercept(this.toRequestConfig(config, cancellationToken));
+
+        const method = (requestConfig.method ?? 'get').toUpperCase();
+        const stopTimer = this.options.metrics?.histogram('http_client_request_duration_seconds', 'Duration of HTTP request attempts', {
+            labelNames: ['method', 'status']
+        }).startTimer({ method });
+
+        let response: AxiosResponse;
+
+        try {
+            response = await this.client.request<T>(requestConfig);
+            stopTimer?.({ status: response.status });
+        } catch (error) {
+            stopTimer?.({ status: axios.isAxiosError(error) && error.response ? error.response.status : 'error' });
+            throw error;
+        }
+
+        for (const interceptor of this.responseInterceptors)
+            response = await interceptor(response);
+
+        return response;
+    }
+
+    private toRequestConfig(config: RestRequestConfig, cancellationToken?: CancellationToken): AxiosRequestConfig {
+        const timeout = config.timeout ?? this.options.timeout;
+
+        return {
+            ...config,
+            timeout: timeout?.totalMilliseconds,
+            signal: cancellationToken?.signal as GenericAbortSignal | undefined
+        };
+    }
+
+    private async intercept(config: AxiosRequestConfig): Promise<AxiosRequestConfig> {
+        for (const interceptor of this.requestInterceptors)
+            config = await interceptor(config);
+
+        return config;
+    }
+}
+
+function withoutConditionalHeaders(headers: RawAxiosRequestHeaders): RawAxiosRequestHeaders {
+    return Object.fromEntries(Object.entries(headers).filter(([name]) => !/^if-(none-match|modified-since)$/i.test(name)));
+}
+
+function removeItem<TItem>(items: TItem[], item: TItem): void {
+    const index = items.indexOf(item);
+
+    if (index >= 0)
+        items.splice(index, 1);
 }
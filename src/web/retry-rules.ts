@@ -0,0 +1,145 @@
+﻿import { AxiosError, AxiosRequestConfig } from 'axios';
+import { randomUUID } from 'crypto';
+
+import { TimeSpan } from 'dash-core';
+
+
+type retryRulesOptions = {
+    /** Whether requests that received no response (connection errors, timeouts) are retried. */
+    retryNetworkErrors: boolean,
+
+    /** Decides whether a response status is retried. */
+    retryStatus: (status: number) => boolean,
+
+    /** Methods that are safe to repeat. Other methods are only retried with an idempotency key. */
+    idempotentMethods: string[],
+
+    /** Header carrying the idempotency key. */
+    idempotencyHeader: string,
+
+    /** Whether an idempotency key is generated for non-idempotent requests that lack one. */
+    generateIdempotencyKey: boolean,
+
+    /** Whether the `Retry-After` response header replaces the backoff delay. */
+    respectRetryAfter: boolean,
+
+    /** Longest `Retry-After` delay that is waited for; longer requests are not retried. */
+    maxRetryAfter: TimeSpan,
+}
+
+/**
+ * Decides which failed HTTP requests may be retried and how long to wait before the next attempt.
+ * By default only network errors, 408, 429 and 5xx responses are retried, and non-idempotent
+ * requests such as POST only when they carry an idempotency key.
+ */
+export class HttpRetryRules {
+    private readonly options: retryRulesOptions;
+
+    private readonly defaultOptions: retryRulesOptions = {
+        retryNetworkErrors: true,
+        retryStatus: (status) => status === 408 || status === 429 || status >= 500,
+        idempotentMethods: ['get', 'head', 'options', 'put', 'delete', 'trace'],
+        idempotencyHeader: 'Idempotency-Key',
+        generateIdempotencyKey: false,
+        respectRetryAfter: true,
+        maxRetryAfter: TimeSpan.fromMinutes(1)
+    }
+
+    /**
+     * Creates an instance of the HttpRetryRules class.
+     * @param {Partial<retryRulesOptions>} [options] - Configuration options for the rules.
+     * @param {boolean} [options.retryNetworkErrors] - Whether requests that received no response are retried (default is true).
+     * @param {(status: number) => boolean} [options.retryStatus] - Decides whether a response status is retried (default is 408, 429 and 5xx).
+     * @param {string[]} [options.idempotentMethods] - Methods that are safe to repeat (default is GET, HEAD, OPTIONS, PUT, DELETE and TRACE).
+     * @param {string} [options.idempotencyHeader] - Header carrying the idempotency key (default is `Idempotency-Key`).
+     * @param {boolean} [options.generateIdempotencyKey] - Whether a key is generated for non-idempotent requests that lack one (default is false).
+     * @param {boolean} [options.respectRetryAfter] - Whether the `Retry-After` header replaces the backoff delay (default is true).
+     * @param {TimeSpan} [options.maxRetryAfter] - Longest `Retry-After` delay that is waited for (default is 1 minute).
+     */
+    constructor(options?: Partial<retryRulesOptions>) {
+        this.options = { ...this.defaultOptions, ...options };
+    }
+
+    /**
+     * Attaches a generated idempotency key to non-idempotent requests that lack one, if enabled.
+     * The key has to be attached once per logical request, so every retry carries the same key.
+     * @param {TConfig} config - The request configuration.
+     * @returns {TConfig} The configuration, with the key header added when needed.
+     */
+    public prepare<TConfig extends Pick<AxiosRequestConfig, 'method' | 'headers'>>(config: TConfig): TConfig {
+        if (!this.options.generateIdempotencyKey || this.isIdempotentMethod(config.method))
+            return config;
+
+        if (readHeader(config.headers, this.options.idempotencyHeader) !== undefined)
+            return config;
+
+        return { ...config, headers: { ...config.headers, [this.options.idempotencyHeader]: randomUUID() } };
+    }
+
+    /**
+     * Determines whether a failed request may be retried.
+     * @param {unknown} error - The error raised by the request.
+     * @returns {boolean} True if the request may be retried.
+     */
+    public shouldRetry(error: unknown): boolean {
+        if (!(error instanceof AxiosError))
+            return false;
+
+        if (!this.isIdempotentMethod(error.config?.method) && readHeader(error.config?.headers, this.options.idempotencyHeader) === undefined)
+            return false;
+
+        if (!error.response)
+            return this.options.retryNetworkErrors && error.code !== AxiosError.ERR_CANCELED;
+
+        if (!this.options.retryStatus(error.response.status))
+            return false;
+
+        const retryAfter = this.getRetryAfter(error);
+
+        return !retryAfter || retryAfter.totalMilliseconds <= this.options.maxRetryAfter.totalMilliseconds;
+    }
+
+    /**
+     * Reads the delay requested by the server through the `Retry-After` header.
+     * @param {unknown} error - The error raised by the request.
+     * @returns {TimeSpan | undefined} The requested delay, or undefined if none was requested or the header is ignored.
+     */
+    public getRetryAfter(error: unknown): TimeSpan | undefined {
+        if (!this.options.respectRetryAfter || !(error instanceof AxiosError))
+            return undefined;
+
+        const header = readHeader(error.response?.headers, 'retry-after');
+
+        if (header === undefined)
+            return undefined;
+
+        const value = String(header).trim();
+
+        if (/^\d+$/.test(value))
+            return TimeSpan.fromSeconds(Number(value));
+
+        const date = Date.parse(value);
+
+        if (isNaN(date))
+            return undefined;
+
+        return TimeSpan.fromMilliseconds(Math.max(0, date - Date.now()));
+    }
+
+    private isIdempotentMethod(method?: string): boolean {
+        return this.options.idempotentMethods.includes((method ?? 'get').toLowerCase());
+    }
+}
+
+function readHeader(headers: unknown, name: string): unknown {
+    if (!headers || typeof headers !== 'object')
+        return undefined;
+
+    const lowerName = name.toLowerCase();
+    const key = Object.keys(headers).find((item) => item.toLowerCase() === lowerName);
+
+    if (key === undefined)
+        return undefined;
+
+    return (headers as Record<string, unknown>)[key] ?? undefined;
+}
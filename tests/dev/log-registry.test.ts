@@ -0,0 +1,146 @@
+﻿import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { IODirectory, LogLevel, LogRegistry, MemorySink, ServiceLogger, TimeSpan } from 'dash-core';
+
+
+describe('LogRegistry', () => {
+    const sink = new MemorySink();
+
+    function createLogger(serviceName: string, logLevel: LogLevel = LogLevel.INFO): ServiceLogger {
+        return new ServiceLogger({ serviceName, logLevel, verbose: false, defaultFiles: false, sinks: [sink] });
+    }
+
+    function logAll(logger: ServiceLogger): void {
+        logger.debug('debug');
+        logger.info('info');
+        logger.warning('warning');
+        logger.error('error');
+    }
+
+    function messagesOf(serviceName: string): string[] {
+        return sink.entries.filter((entry) => entry.service === serviceName).map((entry) => entry.message);
+    }
+
+    afterEach(() => {
+        LogRegistry.reset();
+        sink.clear();
+    });
+
+    it('should know loggers by service name', () => {
+        const logger = createLogger('registry.known');
+
+        expect(LogRegistry.get('registry.known')).toContain(logger);
+        expect(LogRegistry.services).toContain('registry.known');
+        expect(LogRegistry.get('registry.unknown')).toEqual([]);
+    });
+
+    it('should change levels at runtime, preferring the most specific pattern', () => {
+        const pool = createLogger('db.pool');
+        const query = createLogger('db.query');
+
+        LogRegistry.setLevel('*', LogLevel.WARNING);
+        LogRegistry.setLevel('db.*', LogLevel.ERROR);
+        LogRegistry.setLevel('db.query', LogLevel.DEBUG);
+
+        logAll(pool);
+        logAll(query);
+
+        expect(messagesOf('db.pool')).toEqual(['error']);
+        expect(messagesOf('db.query')).toEqual(['debug', 'info', 'warning', 'error']);
+
+        LogRegistry.setLevel('db.*', undefined);
+        logAll(pool);
+
+        expect(messagesOf('db.pool')).toEqual(['error', 'warning', 'error']);
+    });
+
+    it('should switch services off entirely', () => {
+        const logger = createLogger('registry.off');
+
+        LogRegistry.setLevel('registry.off', 'off');
+        logAll(logger);
+
+        expect(logger.level).toBe('off');
+        expect(messagesOf('registry.off')).toEqual([]);
+        expect(LogRegistry.parse('db=off')).toEqual({ levels: { db: 'off' } });
+    });
+
+    it('should fall back to the options of the logger', () => {
+        const logger = createLogger('registry.fallback', LogLevel.INFO);
+
+        LogRegistry.setLevel('other', LogLevel.DEBUG);
+        logAll(logger);
+
+        expect(logger.level).toBe(LogLevel.INFO);
+        expect(messagesOf('registry.fallback')).toEqual(['info', 'warning', 'error']);
+    });
+
+    it('should filter debug and info entries of services', () => {
+        const health = createLogger('api.health');
+        const orders = createLogger('api.orders');
+        const jobs = createLogger('jobs');
+
+        LogRegistry.setFilter('!api.*, api.orders');
+
+        logAll(health);
+        logAll(orders.child({ requestId: 1 }));
+        logAll(jobs);
+
+        expect(messagesOf('api.health')).toEqual(['warning', 'error']);
+        expect(messagesOf('api.orders')).toEqual(['info', 'warning', 'error']);
+        expect(messagesOf('jobs')).toEqual(['info', 'warning', 'error']);
+    });
+
+    it('should parse and apply settings from an environment variable', () => {
+        expect(LogRegistry.parse('warn, db.*=debug, !api.health')).toEqual({
+            level: LogLevel.WARNING,
+            levels: { 'db.*': LogLevel.DEBUG },
+            filter: ['!api.health']
+        });
+
+        expect(() => LogRegistry.parse('db=verbose')).toThrow(/Unknown log level/);
+        expect(LogRegistry.fromEnvironment('DASH_LOG', {})).toBe(false);
+        expect(LogRegistry.fromEnvironment('DASH_LOG', { DASH_LOG: 'error' })).toBe(true);
+
+        logAll(createLogger('registry.env'));
+
+        expect(messagesOf('registry.env')).toEqual(['error']);
+    });
+
+    describe('watch', () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dash-core-log-settings-'));
+        });
+
+        afterEach(async () => {
+            await IODirectory.remove(directory);
+        });
+
+        it('should apply a settings file and follow its changes', async () => {
+            const filePath = path.join(directory, 'logging.json');
+            await fs.writeFile(filePath, JSON.stringify({ levels: { 'worker.*': 'error' } }));
+
+            const logger = createLogger('worker.sync');
+            const settings = await LogRegistry.watch(filePath, { debounce: TimeSpan.fromMilliseconds(20) });
+
+            try {
+                expect(logger.level).toBe(LogLevel.ERROR);
+
+                await fs.writeFile(filePath, JSON.stringify({ levels: { 'worker.sync': 'verbose' } }));
+                expect(await settings.reload()).toBe(false);
+                expect(logger.level).toBe(LogLevel.ERROR);
+
+                await fs.writeFile(filePath, JSON.stringify({ level: 'debug', filter: '!worker.other' }));
+                expect(await settings.reload()).toBe(true);
+                expect(logger.level).toBe(LogLevel.DEBUG);
+                expect(LogRegistry.isObservable('worker.other')).toBe(false);
+            } finally {
+                settings.close();
+            }
+        });
+    });
+});
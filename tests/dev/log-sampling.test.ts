@@ -0,0 +1,114 @@
+﻿import { LogLevel, LogSamplingOptions, MemorySink, Rate, ServiceLogger, TimeSpan } from 'dash-core';
+
+
+describe('ServiceLogger sampling', () => {
+    let sink: MemorySink;
+
+    function createLogger(sampling: LogSamplingOptions): ServiceLogger {
+        sink = new MemorySink();
+        return new ServiceLogger({ serviceName: 'sampling-test', verbose: false, defaultFiles: false, sinks: [sink], sampling });
+    }
+
+    function messages(): string[] {
+        return sink.entries.map((entry) => entry.message);
+    }
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should collapse repeats within the window into a summary line', async () => {
+        const logger = createLogger({ duplicateWindow: TimeSpan.fromMilliseconds(50) });
+
+        for (let index = 0; index < 238; index++)
+            logger.error('Poll failed');
+
+        logger.info('Other message');
+
+        expect(messages()).toEqual(['Poll failed', 'Other message']);
+
+        await new Promise((resolve) => setTimeout(resolve, 80));
+
+        expect(messages()).toEqual(['Poll failed', 'Other message', 'Poll failed (repeated 237 times)']);
+        expect(sink.entries[2]).toMatchObject({ level: LogLevel.ERROR, repeated: 237 });
+
+        logger.error('Poll failed');
+        expect(messages()).toHaveLength(4);
+    });
+
+    it('should tell repeats apart by their arguments and fields', async () => {
+        const logger = createLogger({ duplicateWindow: TimeSpan.fromMinutes(1) });
+
+        logger.warning('Poll of %s failed', 'orders');
+        logger.warning('Poll of %s failed', 'invoices');
+        logger.warning('Poll of %s failed', 'orders');
+        logger.child({ tenant: 'a' }).error('Sync failed');
+        logger.child({ tenant: 'b' }).error('Sync failed');
+        await logger.close();
+
+        expect(messages()).toEqual([
+            'Poll of orders failed',
+            'Poll of invoices failed',
+            'Sync failed',
+            'Sync failed',
+            'Poll of orders failed (repeated 1 time)'
+        ]);
+    });
+
+    it('should accept a custom repeat key', async () => {
+        const logger = createLogger({ duplicateWindow: TimeSpan.fromMinutes(1), key: ({ level, message }) => `${level} ${message}` });
+
+        logger.child({ tenant: 'a' }).error('Sync failed');
+        logger.child({ tenant: 'b' }).error('Sync failed');
+        await logger.close();
+
+        expect(messages()).toEqual(['Sync failed', 'Sync failed (repeated 1 time)']);
+    });
+
+    it('should write pending summaries on close', async () => {
+        const logger = createLogger({ duplicateWindow: TimeSpan.fromMinutes(1) });
+
+        logger.child({ poller: 'orders' }).warning('Slow response');
+        logger.child({ poller: 'orders' }).warning('Slow response');
+        await logger.close();
+
+        expect(sink.entries.map(({ message, poller }) => ({ message, poller }))).toEqual([
+            { message: 'Slow response', poller: 'orders' },
+            { message: 'Slow response (repeated 1 time)', poller: 'orders' }
+        ]);
+    });
+
+    it('should limit the rate but let the first warnings and errors pass', () => {
+        const logger = createLogger({ rate: Rate.of(2, TimeSpan.fromMinutes(1)) });
+
+        for (let index = 0; index < 5; index++)
+            logger.info(`Item ${index}`);
+
+        logger.warning('Disk almost full');
+        logger.error('Disk full');
+
+        expect(messages()).toEqual([
+            'Item 0',
+            'Item 1',
+            'Dropped 3 log entries exceeding the rate limit',
+            'Disk almost full',
+            'Disk full'
+        ]);
+    });
+
+    it('should sample debug entries', () => {
+        const logger = createLogger({ debugSampleRate: 0.25 });
+        const random = jest.spyOn(Math, 'random');
+
+        for (const value of [0.1, 0.3, 0.2, 0.9])
+            random.mockReturnValueOnce(value);
+
+        for (let index = 0; index < 4; index++)
+            logger.debug(`Tick ${index}`);
+
+        logger.info('Not sampled');
+
+        expect(messages()).toEqual(['Tick 0', 'Tick 2', 'Not sampled']);
+        expect(() => createLogger({ debugSampleRate: 2 })).toThrow(/between 0 and 1/);
+    });
+});
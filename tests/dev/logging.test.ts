@@ -0,0 +1,184 @@
+﻿import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { IODirectory, LogFormat, MemorySink, RedactionPatterns, ServiceLogger } from 'dash-core';
+
+
+describe('ServiceLogger', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dash-core-logging-'));
+    });
+
+    afterEach(async () => {
+        await IODirectory.remove(directory);
+    });
+
+    async function readLines(filePath: string, count: number): Promise<string[]> {
+        // File transports finish writing after the logger is closed
+        for (let attempt = 0; attempt < 50; attempt++) {
+            const content = await fs.readFile(filePath, 'utf-8').catch(() => '');
+            const lines = content.split('\n').filter((line) => line !== '');
+
+            if (lines.length >= count)
+                return lines;
+
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+
+        throw new Error(`${filePath} has fewer than ${count} lines`);
+    }
+
+    describe('JSON format', () => {
+        function createLogger(sink: MemorySink, options: ConstructorParameters<typeof ServiceLogger>[0] = {}): ServiceLogger {
+            const logger = new ServiceLogger({
+                serviceName: 'json-test', verbose: false, defaultFiles: false, logPath: directory, format: LogFormat.JSON, sinks: [sink], ...options
+            });
+
+            logger.addTransport('app.log');
+            return logger;
+        }
+
+        it('should write one JSON object per entry with interpolated messages and merged fields', async () => {
+            const sink = new MemorySink();
+            const logger = createLogger(sink);
+
+            logger.child({ requestId: 'r-1' }).info('Fetched %d orders', 3, { durationMs: 12, level: 'ignored' }, 'extra');
+            await logger.close();
+
+            const [line] = await readLines(path.join(directory, 'app.log'), 1);
+            const entry = JSON.parse(line);
+
+            expect(entry).toMatchObject({
+                level: 'info',
+                service: 'json-test',
+                message: 'Fetched 3 orders',
+                requestId: 'r-1',
+                durationMs: 12,
+                meta: ['extra']
+            });
+            expect(new Date(entry.timestamp).toString()).not.toBe('Invalid Date');
+            expect(sink.entries[0]).toMatchObject({ message: 'Fetched 3 orders', requestId: 'r-1', durationMs: 12, level: 'info' });
+        });
+
+        it('should serialize errors with their stack, own properties and cause', async () => {
+            const sink = new MemorySink();
+            const logger = createLogger(sink);
+            const cause = new Error('connection reset');
+            const error = Object.assign(new Error('Sync failed', { cause }), { status: 503 });
+
+            logger.error('Sync of %s failed', 'orders', error, new Error('second'));
+            await logger.close();
+
+            const [line] = await readLines(path.join(directory, 'app.log'), 1);
+            const entry = JSON.parse(line);
+
+            expect(entry.message).toBe('Sync of orders failed');
+            expect(entry.errors).toHaveLength(2);
+            expect(entry.errors[0]).toMatchObject({ name: 'Error', message: 'Sync failed', status: 503, cause: { message: 'connection reset' } });
+            expect(entry.errors[0].stack).toContain('Sync failed');
+            expect(sink.entries[0].errors).toEqual(entry.errors);
+        });
+
+        it('should tolerate circular meta and bigints', async () => {
+            const sink = new MemorySink();
+            const logger = createLogger(sink);
+            const circular: Record<string, unknown> = { id: 1n };
+            circular.self = circular;
+
+            logger.info('Loaded', { job: circular });
+            await logger.close();
+
+            const [line] = await readLines(path.join(directory, 'app.log'), 1);
+
+            expect(JSON.parse(line).job).toEqual({ id: '1', self: '[Circular]' });
+        });
+
+        it('should write redacted values', async () => {
+            const sink = new MemorySink();
+            const logger = createLogger(sink, { redaction: { patterns: [RedactionPatterns.EMAIL] } });
+
+            logger.child({ token: 'abc' }).warning('Login of %s failed', 'ann@example.com', { password: 'hunter2', attempts: 3 });
+            await logger.close();
+
+            const [line] = await readLines(path.join(directory, 'app.log'), 1);
+
+            expect(line).not.toContain('hunter2');
+            expect(line).not.toContain('ann@example.com');
+            expect(JSON.parse(line)).toMatchObject({ message: 'Login of [REDACTED] failed', token: '[REDACTED]', password: '[REDACTED]', attempts: 3 });
+        });
+    });
+
+    describe('context', () => {
+        function createLogger(sink: MemorySink, asyncContext: boolean = false): ServiceLogger {
+            return new ServiceLogger({ serviceName: 'context-test', verbose: false, defaultFiles: false, sinks: [sink], asyncContext });
+        }
+
+        it('should stamp child bindings, with inner fields replacing outer ones', async () => {
+            const sink = new MemorySink();
+            const logger = createLogger(sink);
+            const request = logger.child({ requestId: 'r-1', user: 'ann' });
+
+            request.child({ user: 'bob', step: 2 }).info('Nested');
+            request.info('Child');
+            logger.info('Parent');
+            await logger.close();
+
+            expect(sink.entries.map(({ message, requestId, user, step }) => ({ message, requestId, user, step }))).toEqual([
+                { message: 'Nested', requestId: 'r-1', user: 'bob', step: 2 },
+                { message: 'Child', requestId: 'r-1', user: 'ann', step: undefined },
+                { message: 'Parent', requestId: undefined, user: undefined, step: undefined }
+            ]);
+        });
+
+        it('should carry async context fields across awaits and keep concurrent contexts apart', async () => {
+            const sink = new MemorySink();
+            const logger = createLogger(sink, true);
+
+            const handle = (requestId: string, delay: number) => ServiceLogger.runWithContext({ requestId }, async () => {
+                await new Promise((resolve) => setTimeout(resolve, delay));
+                await ServiceLogger.runWithContext({ step: 'save' }, async () => {
+                    await Promise.resolve();
+                    logger.child({ requestId: `${requestId}-child` }).info(`Saved ${requestId}`);
+                });
+                logger.info(`Done ${requestId}`);
+            });
+
+            await Promise.all([handle('a', 20), handle('b', 5)]);
+            logger.info('Outside');
+            await logger.close();
+
+            expect(sink.entries.map(({ message, requestId, step }) => ({ message, requestId, step }))).toEqual([
+                { message: 'Saved b', requestId: 'b-child', step: 'save' },
+                { message: 'Done b', requestId: 'b', step: undefined },
+                { message: 'Saved a', requestId: 'a-child', step: 'save' },
+                { message: 'Done a', requestId: 'a', step: undefined },
+                { message: 'Outside', requestId: undefined, step: undefined }
+            ]);
+            expect(ServiceLogger.context).toEqual({});
+        });
+
+        it('should ignore async context fields unless enabled', async () => {
+            const sink = new MemorySink();
+            const logger = createLogger(sink);
+
+            await ServiceLogger.runWithContext({ requestId: 'r-1' }, async () => logger.info('Plain'));
+            await logger.close();
+
+            expect(sink.entries[0].requestId).toBeUndefined();
+        });
+
+        it('should leave the transports of the parent open when a child is closed', async () => {
+            const sink = new MemorySink();
+            const logger = createLogger(sink);
+
+            await logger.child({ requestId: 'r-1' }).close();
+            logger.info('Still open');
+            await logger.close();
+
+            expect(sink.entries.map((entry) => entry.message)).toEqual(['Still open']);
+        });
+    });
+});
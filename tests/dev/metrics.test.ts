@@ -0,0 +1,150 @@
+﻿import http from 'http';
+import { AddressInfo } from 'net';
+
+import { AdaptivePoller, Counter, FixedDelay, MetricsRegistry, RestRequest, RetryPolicy, TimeSpan, Wait } from 'dash-core';
+
+
+describe('MetricsRegistry', () => {
+    let metrics: MetricsRegistry;
+
+    beforeEach(() => {
+        metrics = new MetricsRegistry();
+    });
+
+    it('should render labelled counters and gauges in the Prometheus text format', () => {
+        const requests = metrics.counter('requests_total', 'Requests sent', ['method', 'path']);
+        const queue = metrics.gauge('queue_length', 'Jobs waiting');
+
+        requests.inc({ method: 'GET', path: '/orders' });
+        requests.inc({ method: 'GET', path: '/orders' }, 2);
+        requests.inc({ method: 'POST', path: '/say "hi"\n' });
+        queue.set(5);
+        queue.dec();
+
+        expect(requests.get({ method: 'GET', path: '/orders' })).toBe(3);
+        expect(metrics.render()).toBe([
+            '# HELP requests_total Requests sent',
+            '# TYPE requests_total counter',
+            'requests_total{method="GET",path="/orders"} 3',
+            'requests_total{method="POST",path="/say \\"hi\\"\\n"} 1',
+            '# HELP queue_length Jobs waiting',
+            '# TYPE queue_length gauge',
+            'queue_length 4',
+            ''
+        ].join('\n'));
+    });
+
+    it('should render cumulative histogram buckets', () => {
+        const durations = metrics.histogram('duration_seconds', 'Durations', { buckets: [0.1, 1], labelNames: ['route'] });
+
+        for (const value of [0.05, 0.5, 0.7, 3])
+            durations.observe(value, { route: 'home' });
+
+        expect(metrics.render().split('\n').slice(2, 7)).toEqual([
+            'duration_seconds_bucket{route="home",le="0.1"} 1',
+            'duration_seconds_bucket{route="home",le="1"} 3',
+            'duration_seconds_bucket{route="home",le="+Inf"} 4',
+            'duration_seconds_sum{route="home"} 4.25',
+            'duration_seconds_count{route="home"} 4'
+        ]);
+    });
+
+    it('should report summary quantiles of recent observations', () => {
+        const sizes = metrics.summary('size_bytes', 'Sizes', { quantiles: [0.5, 0.9] });
+
+        for (let value = 1; value <= 10; value++)
+            sizes.observe(value);
+
+        expect(metrics.render().split('\n').slice(2, 6)).toEqual([
+            'size_bytes{quantile="0.5"} 5',
+            'size_bytes{quantile="0.9"} 9',
+            'size_bytes_sum 55',
+            'size_bytes_count 10'
+        ]);
+    });
+
+    it('should return existing metrics and reject conflicting ones', () => {
+        const prefixed = new MetricsRegistry({ prefix: 'app_' });
+        const counter = prefixed.counter('jobs_total', 'Jobs', ['queue']);
+
+        expect(prefixed.counter('jobs_total', 'Jobs', ['queue'])).toBe(counter);
+        expect(prefixed.get('jobs_total')).toBeInstanceOf(Counter);
+        expect(counter.name).toBe('app_jobs_total');
+        expect(() => prefixed.gauge('jobs_total', 'Jobs', ['queue'])).toThrow(/already exists/);
+        expect(() => prefixed.counter('jobs_total', 'Jobs', ['other'])).toThrow(/already exists/);
+        expect(() => counter.inc({ unknown: 1 })).toThrow(/Unknown label/);
+        expect(() => counter.inc({ queue: 'a' }, -1)).toThrow(/only be incremented/);
+        expect(() => prefixed.histogram('latency', 'Latency', { labelNames: ['le'] })).toThrow(/Invalid label name/);
+        expect(() => prefixed.counter('bad-name', 'Bad')).toThrow(/Invalid metric name/);
+    });
+
+    it('should record the cycles and delay of an AdaptivePoller', async () => {
+        const poller = new AdaptivePoller({
+            initialDelay: TimeSpan.fromMilliseconds(10),
+            maxDelay: TimeSpan.fromSeconds(1),
+            factor: 2,
+            metrics,
+            name: 'orders'
+        });
+
+        let calls = 0;
+
+        poller.start(async () => {
+            if (++calls === 1)
+                throw new Error('failure');
+        });
+
+        await Wait(TimeSpan.fromMilliseconds(60));
+        await poller.stop();
+
+        const rendered = metrics.render();
+
+        expect(rendered).toContain('adaptive_poller_cycles_total{poller="orders",outcome="error"} 1');
+        expect(rendered).toMatch(/adaptive_poller_cycles_total\{poller="orders",outcome="success"\} [1-9]/);
+        expect(rendered).toContain('adaptive_poller_delay_seconds{poller="orders"} 0.02');
+    });
+
+    it('should record the attempts of a RestRequest and the retries of its backoff', async () => {
+        let requests = 0;
+        const server = http.createServer((_, response) => response.writeHead(++requests === 1 ? 503 : 200).end('{}'));
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+        try {
+            const client = new RestRequest({
+                baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+                backoff: { initialDelay: TimeSpan.fromMilliseconds(1), maxDelay: TimeSpan.fromMilliseconds(10), factor: 2 },
+                metrics
+            });
+
+            await client.get('/orders');
+        } finally {
+            await new Promise((resolve) => server.close(resolve));
+        }
+
+        const rendered = metrics.render();
+
+        expect(rendered).toContain('http_client_request_duration_seconds_count{method="GET",status="503"} 1');
+        expect(rendered).toContain('http_client_request_duration_seconds_count{method="GET",status="200"} 1');
+        expect(rendered).toContain('retry_policy_retries_total{policy="rest-request"} 1');
+    });
+
+    it('should count the retries of a custom retry policy of a RestRequest', async () => {
+        let requests = 0;
+        const server = http.createServer((_, response) => response.writeHead(++requests <= 2 ? 503 : 200).end('{}'));
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+        try {
+            const client = new RestRequest({
+                baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+                retryPolicy: new RetryPolicy({ strategy: new FixedDelay(TimeSpan.fromMilliseconds(1)), maxAttempts: 3 }),
+                metrics
+            });
+
+            await client.get('/orders');
+        } finally {
+            await new Promise((resolve) => server.close(resolve));
+        }
+
+        expect(metrics.render()).toContain('retry_policy_retries_total{policy="rest-request"} 2');
+    });
+});
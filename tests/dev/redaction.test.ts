@@ -0,0 +1,108 @@
+﻿import { MemorySink, RedactionPatterns, Redactor, ServiceLogger } from 'dash-core';
+
+
+describe('Redactor', () => {
+    const redactor = new Redactor();
+
+    it('should mask values of sensitive keys at any depth, case-insensitively', () => {
+        const config = {
+            url: '/orders',
+            headers: { Authorization: 'Bearer abc.def', 'X-Api-Key': 'key-123', Accept: 'application/json' },
+            data: { user: { name: 'Ann', Password: 'hunter2' }, refresh_token: { value: 'xyz' } }
+        };
+
+        expect(redactor.redact(config)).toEqual({
+            url: '/orders',
+            headers: { Authorization: '[REDACTED]', 'X-Api-Key': '[REDACTED]', Accept: 'application/json' },
+            data: { user: { name: 'Ann', Password: '[REDACTED]' }, refresh_token: '[REDACTED]' }
+        });
+
+        expect(config.data.user.Password).toBe('hunter2');
+    });
+
+    it('should mask bearer tokens, card numbers and emails in strings when their patterns are enabled', () => {
+        const patterns = new Redactor({ patterns: Object.values(RedactionPatterns) });
+
+        expect(redactor.redactText('sent Bearer eyJhbGciOi.abc-123 to ann@example.com'))
+            .toBe('sent Bearer eyJhbGciOi.abc-123 to ann@example.com');
+        expect(patterns.redactText('sent Bearer eyJhbGciOi.abc-123 to ann@example.com'))
+            .toBe('sent [REDACTED] to [REDACTED]');
+        expect(patterns.redactText('card 4111 1111 1111 1111 charged at 1767225600000'))
+            .toBe('card [REDACTED] charged at 1767225600000');
+        expect(patterns.redactText('cards 4111111111111111 and 378282246310005'))
+            .toBe('cards [REDACTED] and [REDACTED]');
+    });
+
+    it('should keep digit runs without separators or a card prefix', () => {
+        const patterns = new Redactor({ patterns: [RedactionPatterns.CARD_NUMBER] });
+
+        // Both pass the Luhn check
+        expect(patterns.redactText('at 1767225600009 order 1234567812345670'))
+            .toBe('at 1767225600009 order 1234567812345670');
+    });
+
+    it('should accept custom keys and patterns', () => {
+        const custom = new Redactor({ keys: [/^session/i], patterns: [/order-\d+/g], mask: '***' });
+
+        expect(custom.redact({ sessionId: 1, password: 'kept', note: 'see order-42' }))
+            .toEqual({ sessionId: '***', password: 'kept', note: 'see ***' });
+        expect(Object.keys(RedactionPatterns)).toEqual(['AUTHORIZATION', 'JWT', 'CARD_NUMBER', 'EMAIL']);
+    });
+
+    it('should replace circular references and bound depth and size', () => {
+        const bounded = new Redactor({ maxDepth: 2, maxItems: 3, maxStringLength: 5 });
+        const circular: Record<string, unknown> = { name: 'root' };
+        circular.self = circular;
+
+        expect(bounded.redact(circular)).toEqual({ name: 'root', self: '[Circular]' });
+        expect(bounded.redact({ a: { b: { c: 1 } }, list: [[1]] })).toEqual({ a: { b: '[Object]' }, list: ['[Array]'] });
+        expect(bounded.redact([1, 2, 3, 4, 5])).toEqual([1, 2, 3, '… 2 more items']);
+        expect(bounded.redact('abcdefgh')).toBe('abcde… (3 more characters)');
+    });
+
+    it('should keep errors as errors', () => {
+        const error = Object.assign(new Error('login failed for ann@example.com'), { password: 'hunter2', status: 401 });
+        const result = new Redactor({ patterns: [RedactionPatterns.EMAIL] }).redact(error) as Error & Record<string, unknown>;
+
+        expect(result).toBeInstanceOf(Error);
+        expect(result.message).toBe('login failed for [REDACTED]');
+        expect(result.stack).not.toContain('ann@example.com');
+        expect(result.password).toBe('[REDACTED]');
+        expect(result.status).toBe(401);
+    });
+});
+
+describe('ServiceLogger redaction', () => {
+    it('should mask sensitive keys of meta and fields by default before they reach any transport', async () => {
+        const sink = new MemorySink();
+        const logger = new ServiceLogger({ serviceName: 'redaction-test', verbose: false, defaultFiles: false, sinks: [sink] });
+
+        logger.child({ token: 'abc' }).info('Signed in ann@example.com', { password: 'hunter2', plan: 'pro' });
+        await logger.close();
+
+        expect(sink.entries[0]).toMatchObject({ message: 'Signed in ann@example.com', token: '[REDACTED]', password: '[REDACTED]', plan: 'pro' });
+    });
+
+    it('should mask patterns in messages when they are enabled', async () => {
+        const sink = new MemorySink();
+        const logger = new ServiceLogger({
+            serviceName: 'redaction-test', verbose: false, defaultFiles: false, sinks: [sink],
+            redaction: { patterns: [RedactionPatterns.EMAIL] }
+        });
+
+        logger.info('Signed in ann@example.com', { password: 'hunter2' });
+        await logger.close();
+
+        expect(sink.entries[0]).toMatchObject({ message: 'Signed in [REDACTED]', password: '[REDACTED]' });
+    });
+
+    it('should log values as they are when redaction is off', async () => {
+        const sink = new MemorySink();
+        const logger = new ServiceLogger({ serviceName: 'redaction-test', verbose: false, defaultFiles: false, sinks: [sink], redaction: false });
+
+        logger.info('Signed in', { password: 'hunter2' });
+        await logger.close();
+
+        expect(sink.entries[0].password).toBe('hunter2');
+    });
+});
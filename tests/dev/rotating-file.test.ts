@@ -0,0 +1,80 @@
+﻿import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { gunzipSync } from 'zlib';
+
+import { IODirectory, RotatingFileTransport, TimeSpan } from 'dash-core';
+
+
+describe('RotatingFileTransport', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dash-core-rotation-'));
+    });
+
+    afterEach(async () => {
+        await IODirectory.remove(directory);
+    });
+
+    function createTransport(rotation: ConstructorParameters<typeof RotatingFileTransport>[0]['rotation']): RotatingFileTransport {
+        return new RotatingFileTransport({ filename: path.join(directory, 'app.log'), rotation });
+    }
+
+    it('should rotate by size, compress rotated files and keep the newest ones', async () => {
+        const transport = createTransport({ maxSize: 10, maxFiles: 2, compress: true });
+
+        for (const message of ['first', 'second', 'third', 'fourth'])
+            transport.log({ [Symbol.for('message')]: message }, () => undefined);
+
+        await transport.flush();
+
+        const files = (await fs.readdir(directory)).sort();
+
+        expect(files).toHaveLength(3);
+        expect(files[files.length - 1]).toBe('app.log');
+        expect(files.slice(0, 2).every((file) => /^app\.\d{4}-\d{2}-\d{2}\.\d\.log\.gz$/.test(file))).toBe(true);
+        expect((await fs.readFile(path.join(directory, 'app.log'), 'utf-8')).trim()).toBe('fourth');
+
+        const rotated = await Promise.all(files.slice(0, 2).map(async (file) => gunzipSync(await fs.readFile(path.join(directory, file))).toString().trim()));
+        expect(rotated.sort()).toEqual(['second', 'third']);
+    });
+
+    it('should remove rotated files older than the max age', async () => {
+        const stale = path.join(directory, 'app.2020-01-01.1.log');
+        await fs.writeFile(stale, 'old');
+        await fs.utimes(stale, new Date(2020, 0, 1), new Date(2020, 0, 1));
+
+        const transport = createTransport({ maxSize: 1, maxAge: TimeSpan.fromDays(7) });
+
+        transport.log({ [Symbol.for('message')]: 'first' }, () => undefined);
+        transport.log({ [Symbol.for('message')]: 'second' }, () => undefined);
+        await transport.flush();
+
+        const files = await fs.readdir(directory);
+
+        expect(files).not.toContain('app.2020-01-01.1.log');
+        expect(files).toHaveLength(2);
+    });
+
+    it('should share one writer between transports of the same file', async () => {
+        const first = createTransport({ maxSize: 12 });
+        const second = createTransport({ maxSize: 12 });
+
+        for (const message of ['one', 'two', 'three', 'four', 'five', 'six'])
+            (message.length % 2 ? first : second).log({ [Symbol.for('message')]: message }, () => undefined);
+
+        await first.flush();
+        first.close();
+
+        second.log({ [Symbol.for('message')]: 'seven' }, () => undefined);
+        await second.flush();
+        second.close();
+
+        const files = await fs.readdir(directory);
+        const lines = (await Promise.all(files.map((file) => fs.readFile(path.join(directory, file), 'utf-8'))))
+            .flatMap((content) => content.trim().split(/\r?\n/));
+
+        expect(lines.sort()).toEqual(['five', 'four', 'one', 'seven', 'six', 'three', 'two']);
+    });
+});
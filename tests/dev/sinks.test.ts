@@ -0,0 +1,180 @@
+﻿import dgram from 'dgram';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+import { HttpBatchSink, LogEntry, LogLevel, MemorySink, RingBufferSink, ServiceLogger, SyslogSink, TimeSpan } from 'dash-core';
+
+
+describe('ServiceLogger sinks', () => {
+    function createLogger(sink: MemorySink): ServiceLogger {
+        return new ServiceLogger({ serviceName: 'sink-test', verbose: false, defaultFiles: false, sinks: [sink] });
+    }
+
+    it('should hand structured entries to a sink', async () => {
+        const sink = new MemorySink();
+        const logger = createLogger(sink).child({ requestId: 'abc' });
+
+        logger.info('Fetched %s items', 3, { source: 'cache' });
+        logger.error('Request failed', new Error('boom'));
+        await logger.close();
+
+        expect(sink.entries).toHaveLength(2);
+        expect(sink.entries[0]).toMatchObject({ level: LogLevel.INFO, service: 'sink-test', message: 'Fetched 3 items', requestId: 'abc', source: 'cache' });
+        expect(typeof sink.entries[0].timestamp).toBe('string');
+        expect(sink.ofLevel(LogLevel.ERROR)[0].error).toMatchObject({ name: 'Error', message: 'boom' });
+        expect(sink.find((entry) => entry.message === 'Request failed')).toBeDefined();
+    });
+
+    it('should respect the level of a sink added as transport', async () => {
+        const all = new MemorySink();
+        const errors = new MemorySink();
+        const logger = createLogger(all);
+
+        logger.addTransport(errors, LogLevel.ERROR);
+        logger.warning('careful');
+        logger.error('failed');
+        await logger.close();
+
+        expect(all.entries.map((entry) => entry.message)).toEqual(['careful', 'failed']);
+        expect(errors.entries.map((entry) => entry.message)).toEqual(['failed']);
+    });
+});
+
+describe('RingBufferSink', () => {
+    it('should keep the most recent entries in order', () => {
+        const sink = new RingBufferSink(3);
+
+        for (let index = 1; index <= 5; index++)
+            sink.write(createEntry(`entry ${index}`));
+
+        expect(sink.entries.map((entry) => entry.message)).toEqual(['entry 3', 'entry 4', 'entry 5']);
+
+        sink.clear();
+        expect(sink.entries).toEqual([]);
+    });
+});
+
+describe('HttpBatchSink', () => {
+    let server: http.Server;
+    let url: string;
+    let batches: LogEntry[][];
+    let failures: number;
+    let failureStatus: number;
+    let requests: number;
+
+    beforeEach(async () => {
+        batches = [];
+        failures = 0;
+        failureStatus = 503;
+        requests = 0;
+
+        server = http.createServer((request, response) => {
+            let body = '';
+
+            request.on('data', (chunk) => body += chunk);
+            request.on('end', () => {
+                requests++;
+
+                if (failures > 0) {
+                    failures--;
+                    response.writeHead(failureStatus).end();
+                    return;
+                }
+
+                batches.push(JSON.parse(body));
+                response.writeHead(204).end();
+            });
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/logs`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    const backoff = { initialDelay: TimeSpan.fromMilliseconds(10), maxDelay: TimeSpan.fromMilliseconds(50), factor: 2 };
+
+    it('should post full batches and the remainder on close', async () => {
+        const sink = new HttpBatchSink({ url, batchSize: 2, backoff });
+
+        for (let index = 1; index <= 5; index++)
+            sink.write(createEntry(`entry ${index}`));
+
+        await sink.close();
+
+        expect(batches.map((batch) => batch.map((entry) => entry.message))).toEqual([
+            ['entry 1', 'entry 2'],
+            ['entry 3', 'entry 4'],
+            ['entry 5']
+        ]);
+    });
+
+    it('should retry failed posts and report batches that cannot be delivered', async () => {
+        const onError = jest.fn();
+        const sink = new HttpBatchSink({ url, backoff, maxAttempts: 2, onError });
+
+        failures = 1;
+        sink.write(createEntry('retried'));
+        await sink.flush();
+
+        expect(batches).toHaveLength(1);
+        expect(onError).not.toHaveBeenCalled();
+
+        failures = 2;
+        sink.write(createEntry('dropped'));
+        await sink.close();
+
+        expect(batches).toHaveLength(1);
+        expect(onError).toHaveBeenCalledWith(expect.anything(), [expect.objectContaining({ message: 'dropped' })]);
+    });
+
+    it('should not retry posts rejected by the endpoint', async () => {
+        const onError = jest.fn();
+        const sink = new HttpBatchSink({ url, backoff, maxAttempts: 3, onError });
+
+        failures = 1;
+        failureStatus = 400;
+        sink.write(createEntry('rejected'));
+        await sink.close();
+
+        expect(requests).toBe(1);
+        expect(batches).toHaveLength(0);
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ response: expect.objectContaining({ status: 400 }) }), [expect.objectContaining({ message: 'rejected' })]);
+    });
+
+    it('should drop the oldest entries when the buffer is full', async () => {
+        const onError = jest.fn();
+        const sink = new HttpBatchSink({ url, batchSize: 10, maxBuffer: 2, onError });
+
+        for (let index = 1; index <= 3; index++)
+            sink.write(createEntry(`entry ${index}`));
+
+        expect(sink.pending).toBe(2);
+        expect(onError).toHaveBeenCalledWith(expect.any(Error), [expect.objectContaining({ message: 'entry 1' })]);
+
+        await sink.close();
+    });
+});
+
+describe('SyslogSink', () => {
+    it('should send RFC 5424 messages over UDP', async () => {
+        const server = dgram.createSocket('udp4');
+        await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', resolve));
+
+        const received = new Promise<string>((resolve) => server.once('message', (message) => resolve(message.toString())));
+        const sink = new SyslogSink({ host: '127.0.0.1', port: server.address().port, facility: 16, hostname: 'web 1' });
+
+        await sink.write({ ...createEntry('Disk almost full'), level: LogLevel.WARNING, disk: '/dev/sda1' });
+
+        expect(await received).toBe(`<132>1 2026-01-01T00:00:00.000Z web_1 sink-test ${process.pid} - - Disk almost full {"disk":"/dev/sda1"}`);
+
+        await sink.close();
+        server.close();
+    });
+});
+
+function createEntry(message: string): LogEntry {
+    return { timestamp: '2026-01-01T00:00:00.000Z', level: LogLevel.INFO, service: 'sink-test', message };
+}
@@ -0,0 +1,201 @@
+﻿import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ConfigChangeEvent, ConfigParseError, ConfigParsers, ConfigReader, ConfigSchema, ConfigValidationError, TimeSpan } from 'dash-core';
+
+
+type AppConfig = {
+    name: string,
+    database: { host: string, port: number, ssl: boolean },
+    mode: string
+}
+
+const defaults: AppConfig = {
+    name: 'app',
+    database: { host: 'localhost', port: 5432, ssl: false },
+    mode: 'simple'
+};
+
+const schema: ConfigSchema = {
+    name: { type: 'string', required: true },
+    database: {
+        type: 'object',
+        properties: {
+            host: { type: 'string', required: true },
+            port: { type: 'integer', min: 1, max: 65535 },
+            ssl: { type: 'boolean' }
+        }
+    },
+    mode: { type: 'string', enum: ['simple', 'advanced'] }
+};
+
+describe('ConfigReader', () => {
+    let directory: string;
+    let configPath: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dash-core-config-'));
+        configPath = path.join(directory, 'config.json');
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should deep merge the file over the defaults', async () => {
+        await fs.writeFile(configPath, JSON.stringify({ database: { host: 'db' } }));
+
+        const config = await ConfigReader.readConfig(configPath, defaults);
+
+        expect(config.database).toEqual({ host: 'db', port: 5432, ssl: false });
+    });
+
+    it('should read files without a registered extension as JSON', async () => {
+        for (const name of ['config', 'config.conf']) {
+            await fs.writeFile(path.join(directory, name), JSON.stringify({ name }));
+
+            const config = await ConfigReader.readConfig(path.join(directory, name), defaults);
+
+            expect(config.name).toBe(name);
+        }
+    });
+
+    it('should layer the environment file and prefixed environment variables', async () => {
+        await fs.writeFile(configPath, JSON.stringify({ database: { host: 'db' } }));
+        await fs.writeFile(path.join(directory, 'config.production.json'), JSON.stringify({ database: { port: 6432 } }));
+
+        const config = await ConfigReader.load({
+            path: configPath,
+            defaults,
+            schema,
+            environment: 'production',
+            envPrefix: 'APP_',
+            env: { APP_DATABASE__SSL: 'true', APP_MODE: 'advanced', OTHER: 'ignored' }
+        });
+
+        expect(config).toEqual({ name: 'app', database: { host: 'db', port: 6432, ssl: true }, mode: 'advanced' });
+    });
+
+    it('should aggregate validation issues with key path and source file', async () => {
+        await fs.writeFile(configPath, JSON.stringify({ database: { port: 70000, hots: 'typo' }, mode: 'other' }));
+
+        const error = await ConfigReader.load({ path: configPath, defaults, schema, environment: 'test' }).catch((error) => error);
+
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        expect((error as ConfigValidationError).issues).toEqual([
+            { path: 'database.port', message: 'must be at most 65535', source: configPath },
+            { path: 'database.hots', message: 'is not a known configuration key', source: configPath },
+            { path: 'mode', message: 'must be one of "simple", "advanced"', source: configPath }
+        ]);
+    });
+
+    it('should report wrong types coming from environment variables', async () => {
+        const error = await ConfigReader.load({
+            path: configPath,
+            defaults,
+            schema,
+            optional: true,
+            envPrefix: 'APP_',
+            env: { APP_DATABASE__PORT: 'abc' }
+        }).catch((error) => error);
+
+        expect((error as ConfigValidationError).issues).toEqual([
+            { path: 'database.port', message: 'expected integer but got string', source: 'env' }
+        ]);
+    });
+
+    it('should read YAML, TOML, JSON5 and .env files', async () => {
+        const files: Record<string, string> = {
+            'config.yaml': 'database:\n  host: yaml\n',
+            'config.toml': '[database]\nhost = "toml"\n',
+            'config.json5': '{ database: { host: "json5" }, // comment\n}',
+            '.env': '# comment\nexport DATABASE__HOST="env"\nDATABASE__PORT=6432\n'
+        };
+
+        for (const [name, content] of Object.entries(files)) {
+            await fs.writeFile(path.join(directory, name), content);
+
+            const config = await ConfigReader.load({ path: path.join(directory, name), defaults, schema });
+            const format = path.extname(name).slice(1) || 'env';
+
+            expect(config.database.host).toBe(format);
+        }
+
+        const env = await ConfigReader.load({ path: path.join(directory, '.env'), defaults, schema });
+        expect(env.database.port).toBe(6432);
+    });
+
+    it('should report the line and column of parse errors', async () => {
+        const yamlPath = path.join(directory, 'config.yaml');
+        await fs.writeFile(yamlPath, 'name: app\ndatabase: [\n');
+
+        const error = await ConfigReader.readConfig(yamlPath, defaults).catch((error) => error);
+
+        expect(error).toBeInstanceOf(ConfigParseError);
+        expect((error as ConfigParseError).line).toBe(3);
+
+        await fs.writeFile(configPath, '{\n  "name": "app",\n}');
+
+        const jsonError = await ConfigReader.readConfig(configPath, defaults).catch((error) => error);
+
+        expect(jsonError).toBeInstanceOf(ConfigParseError);
+        expect([(jsonError as ConfigParseError).line, (jsonError as ConfigParseError).column]).toEqual([3, 1]);
+    });
+
+    it('should use registered third-party parsers', async () => {
+        ConfigParsers.register('ini', (content) => Object.fromEntries(content.split('\n').filter(Boolean).map((line) => line.split('='))));
+
+        const iniPath = path.join(directory, 'config.ini');
+        await fs.writeFile(iniPath, 'name=ini\n');
+
+        const config = await ConfigReader.readConfig(iniPath, defaults);
+
+        expect(config.name).toBe('ini');
+    });
+
+    it('should reload changed files and keep the last good configuration', async () => {
+        await fs.writeFile(configPath, JSON.stringify({ database: { host: 'db' } }));
+
+        const live = await ConfigReader.watch({ path: configPath, defaults, schema, debounce: TimeSpan.fromMilliseconds(20) });
+
+        try {
+            const changed = new Promise<ConfigChangeEvent<AppConfig>>((resolve) => live.onChange(resolve));
+            await fs.writeFile(configPath, JSON.stringify({ database: { host: 'db', port: 6432 }, mode: 'advanced' }));
+
+            expect((await changed).changedKeys).toEqual(['database.port', 'mode']);
+            expect(live.current.database.port).toBe(6432);
+
+            const rejected = new Promise<unknown>((resolve) => live.onError(resolve));
+            await fs.writeFile(configPath, JSON.stringify({ database: { port: 'abc' } }));
+
+            expect(await rejected).toBeInstanceOf(ConfigValidationError);
+            expect(live.current.database.port).toBe(6432);
+        } finally {
+            live.close();
+        }
+    });
+
+    it('should keep reloading after a listener throws', async () => {
+        await fs.writeFile(configPath, JSON.stringify({ mode: 'simple' }));
+
+        const live = await ConfigReader.watch({ path: configPath, defaults, schema, debounce: TimeSpan.fromMinutes(1) });
+        const received: string[] = [];
+
+        try {
+            live.onChange(() => { throw new Error('listener boom'); });
+            live.onChange(({ current }) => received.push(current.mode));
+
+            await fs.writeFile(configPath, JSON.stringify({ mode: 'advanced' }));
+            await expect(live.reload()).resolves.toBe(true);
+
+            await fs.writeFile(configPath, JSON.stringify({ mode: 'simple' }));
+            await expect(live.reload()).resolves.toBe(true);
+
+            expect(received).toEqual(['advanced', 'simple']);
+            expect(live.current.mode).toBe('simple');
+        } finally {
+            live.close();
+        }
+    });
+});
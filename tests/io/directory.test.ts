@@ -0,0 +1,49 @@
+﻿import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { IODirectory, IOFile, matchesGlob } from 'dash-core';
+
+
+describe('IODirectory', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dash-core-directory-'));
+
+        await IODirectory.ensure(path.join(directory, 'src/nested'));
+        await IODirectory.ensure(path.join(directory, 'node_modules/lib'));
+
+        for (const file of ['readme.md', 'src/index.ts', 'src/nested/util.ts', 'src/nested/util.test.ts', 'node_modules/lib/index.ts'])
+            await IOFile.write(path.join(directory, file), file);
+    });
+
+    afterEach(async () => {
+        await IODirectory.remove(directory);
+    });
+
+    it('should list recursively with include and exclude globs', async () => {
+        const files = await IODirectory.list(directory, { recursive: true, include: '**/*.ts', exclude: ['node_modules', '*.test.ts'] });
+
+        expect(files.map((file) => path.relative(directory, file).replace(/\\/g, '/'))).toEqual(['src/index.ts', 'src/nested/util.ts']);
+    });
+
+    it('should copy and move directories recursively', async () => {
+        await IODirectory.copy(path.join(directory, 'src'), path.join(directory, 'copy'));
+        await IODirectory.move(path.join(directory, 'copy'), path.join(directory, 'moved'));
+
+        expect(await IODirectory.exists(path.join(directory, 'copy'))).toBe(false);
+        expect(await IOFile.read(path.join(directory, 'moved/nested/util.ts'))).toBe('src/nested/util.ts');
+        expect((await IOFile.stat(path.join(directory, 'moved'))).isDirectory).toBe(true);
+    });
+});
+
+describe('matchesGlob', () => {
+    it('should support stars, globstars, classes and alternatives', () => {
+        expect(matchesGlob('logs/app.log', '*.log')).toBe(true);
+        expect(matchesGlob('logs/2024/app.log', 'logs/*.log')).toBe(false);
+        expect(matchesGlob('logs/2024/app.log', 'logs/**/*.log')).toBe(true);
+        expect(matchesGlob('config.yml', 'config.{json,yml}')).toBe(true);
+        expect(matchesGlob('file1.txt', 'file[0-9].txt')).toBe(true);
+    });
+});
@@ -0,0 +1,73 @@
+﻿import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { FileChangeEvent, FileChangeType, FileWatcher, IODirectory, IOFile, TimeSpan } from 'dash-core';
+
+
+describe('FileWatcher', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dash-core-watcher-'));
+        await IODirectory.ensure(path.join(directory, 'nested'));
+        await IOFile.write(path.join(directory, 'nested/existing.log'), 'a');
+    });
+
+    afterEach(async () => {
+        await IODirectory.remove(directory);
+    });
+
+    async function collect(watcher: FileWatcher, count: number, change: () => Promise<void>): Promise<FileChangeEvent[]> {
+        const events: FileChangeEvent[] = [];
+
+        await watcher.start();
+        await change();
+
+        for await (const event of watcher) {
+            events.push({ ...event, path: path.relative(directory, event.path).replace(/\\/g, '/') });
+
+            if (events.length === count)
+                break;
+        }
+
+        watcher.close();
+
+        return events.sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    it.each([false, true])('should coalesce bursts into add, change and unlink events (polling: %s)', async (polling) => {
+        const watcher = new FileWatcher(directory, {
+            recursive: true,
+            include: '*.log',
+            polling,
+            pollInterval: TimeSpan.fromMilliseconds(200),
+            debounce: TimeSpan.fromMilliseconds(50)
+        });
+
+        const events = await collect(watcher, 3, async () => {
+            await IOFile.write(path.join(directory, 'nested/existing.log'), 'ab');
+            await IOFile.write(path.join(directory, 'nested/added.log'), 'a');
+            await IOFile.appendText(path.join(directory, 'nested/added.log'), 'b');
+            await IOFile.write(path.join(directory, 'ignored.txt'), 'a');
+            await IOFile.write(path.join(directory, 'removed.log'), 'a');
+            await IOFile.delete(path.join(directory, 'removed.log'));
+            await IOFile.write(path.join(directory, 'top.log'), 'a');
+        });
+
+        expect(events).toEqual([
+            { type: FileChangeType.ADD, path: 'nested/added.log' },
+            { type: FileChangeType.CHANGE, path: 'nested/existing.log' },
+            { type: FileChangeType.ADD, path: 'top.log' }
+        ]);
+    });
+
+    it('should report a watched file that is created later', async () => {
+        const filePath = path.join(directory, 'later.json');
+        const watcher = new FileWatcher(filePath, { debounce: TimeSpan.fromMilliseconds(20) });
+
+        const events = await collect(watcher, 1, () => IOFile.write(filePath, '{}'));
+
+        expect(events).toEqual([{ type: FileChangeType.ADD, path: 'later.json' }]);
+    });
+});
@@ -0,0 +1,104 @@
+﻿import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { ConfigParseError, IOFile } from 'dash-core';
+
+
+describe('IOFile', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dash-core-file-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write atomically and keep a backup of the previous version', async () => {
+        const filePath = path.join(directory, 'state.json');
+        await IOFile.write(filePath, 'old');
+
+        await IOFile.writeAtomic(filePath, 'new', { backup: true });
+
+        expect(await IOFile.read(filePath)).toBe('new');
+        expect(await IOFile.read(`${filePath}.bak`)).toBe('old');
+        expect((await fs.readdir(directory)).sort()).toEqual(['state.json', 'state.json.bak']);
+    });
+
+    it('should serialize concurrent atomic writes to the same path', async () => {
+        const filePath = path.join(directory, 'state.json');
+        const writes = Array.from({ length: 10 }, (_, index) => IOFile.writeBytesAtomic(filePath, Buffer.from(String(index))));
+
+        await Promise.all(writes);
+
+        expect(await IOFile.read(filePath)).toBe('9');
+        expect((await fs.readdir(directory)).sort()).toEqual(['state.json']);
+    });
+
+    it('should stream lines without the BOM and with mixed line endings', async () => {
+        const filePath = path.join(directory, 'app.log');
+        await IOFile.write(filePath, '\uFEFFfirst\r\nsecond\nthird');
+
+        const lines: string[] = [];
+
+        for await (const line of IOFile.readLines(filePath))
+            lines.push(line);
+
+        expect(lines).toEqual(['first', 'second', 'third']);
+    });
+
+    it('should stream bytes in chunks', async () => {
+        const filePath = path.join(directory, 'data.bin');
+        await IOFile.writeBytes(filePath, Buffer.alloc(10, 1));
+
+        const sizes: number[] = [];
+
+        for await (const chunk of IOFile.readChunks(filePath, 4))
+            sizes.push(chunk.length);
+
+        expect(sizes).toEqual([4, 4, 2]);
+    });
+
+    it('should round-trip JSON and report parse errors with their position', async () => {
+        const filePath = path.join(directory, 'state.json');
+        await IOFile.writeJson(filePath, { name: 'app', count: 1 });
+
+        expect(await IOFile.read(filePath)).toBe('{\n    "name": "app",\n    "count": 1\n}\n');
+        expect(await IOFile.readJson(filePath, { name: { type: 'string' }, count: { type: 'integer' } })).toEqual({ name: 'app', count: 1 });
+
+        await IOFile.write(filePath, '﻿{\n  "name": \n}');
+
+        const error = await IOFile.readJson(filePath).catch((error) => error);
+
+        expect(error).toBeInstanceOf(ConfigParseError);
+        expect((error as ConfigParseError).line).toBe(3);
+    });
+
+    it('should append and stream NDJSON', async () => {
+        const filePath = path.join(directory, 'events.ndjson');
+        await IOFile.appendNdjson(filePath, { id: 1 }, { id: 2 });
+        await IOFile.appendNdjson(filePath, { id: 3 });
+
+        const ids: number[] = [];
+
+        for await (const event of IOFile.readNdjson<{ id: number }>(filePath))
+            ids.push(event.id);
+
+        expect(ids).toEqual([1, 2, 3]);
+    });
+
+    it('should write and read CSV with quoting and a custom delimiter', async () => {
+        const filePath = path.join(directory, 'export.csv');
+        const records = [
+            { name: 'Smith; John', note: 'said "hi"' },
+            { name: 'Doe', note: 'line\nbreak' }
+        ];
+
+        await IOFile.writeCsv(filePath, records, { delimiter: ';' });
+
+        expect(await IOFile.read(filePath)).toBe('name;note\n"Smith; John";"said ""hi"""\nDoe;"line\nbreak"\n');
+        expect(await IOFile.readCsv(filePath, { delimiter: ';' })).toEqual(records);
+    });
+});
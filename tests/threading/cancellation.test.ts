@@ -0,0 +1,105 @@
+﻿import { AdaptivePoller, CancellationError, CancellationTokenSource, ExponentialBackoff, TimeSpan, Wait } from 'dash-core';
+
+
+describe('CancellationTokenSource', () => {
+    it('should signal its token on cancel', () => {
+        const source = new CancellationTokenSource();
+        const callback = jest.fn();
+
+        source.token.register(callback);
+        expect(source.token.isCancellationRequested).toBe(false);
+
+        source.cancel();
+
+        expect(source.token.isCancellationRequested).toBe(true);
+        expect(callback).toHaveBeenCalledTimes(1);
+        expect(() => source.token.throwIfCancellationRequested()).toThrow(CancellationError);
+    });
+
+    it('should cancel linked sources', () => {
+        const parent = new CancellationTokenSource();
+        const linked = CancellationTokenSource.createLinked(parent.token);
+
+        parent.cancel();
+
+        expect(linked.isCancellationRequested).toBe(true);
+    });
+});
+
+describe('Wait', () => {
+    it('should reject with CancellationError as soon as the token is canceled', async () => {
+        const source = new CancellationTokenSource();
+        const started = Date.now();
+
+        const pending = Wait(TimeSpan.fromMinutes(1), source.token);
+        source.cancel();
+
+        await expect(pending).rejects.toBeInstanceOf(CancellationError);
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('should reject immediately for an already canceled token', async () => {
+        const source = new CancellationTokenSource();
+        source.cancel();
+
+        await expect(Wait(TimeSpan.fromSeconds(1), source.token)).rejects.toBeInstanceOf(CancellationError);
+    });
+});
+
+describe('ExponentialBackoff', () => {
+    it('should abort pending retries when canceled', async () => {
+        const backoff = new ExponentialBackoff({
+            initialDelay: TimeSpan.fromMinutes(1),
+            maxDelay: TimeSpan.fromMinutes(5),
+            factor: 2
+        });
+        const source = new CancellationTokenSource();
+        const operation = jest.fn(() => Promise.reject(new Error('failure')));
+
+        const pending = backoff.execute(operation, source.token);
+        await Wait(TimeSpan.fromMilliseconds(10));
+        source.cancel();
+
+        await expect(pending).rejects.toBeInstanceOf(CancellationError);
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('AdaptivePoller', () => {
+    it('should stop without sitting through the current delay', async () => {
+        const poller = new AdaptivePoller({ initialDelay: TimeSpan.fromMinutes(1) });
+        const operation = jest.fn(() => Promise.resolve());
+
+        poller.start(operation);
+        await Wait(TimeSpan.fromMilliseconds(10));
+
+        const started = Date.now();
+        await poller.stop();
+
+        expect(Date.now() - started).toBeLessThan(1000);
+        expect(poller.isPolling).toBe(false);
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop when the start token is canceled', async () => {
+        const poller = new AdaptivePoller({ initialDelay: TimeSpan.fromMinutes(1) });
+        const source = new CancellationTokenSource();
+
+        poller.start(() => Promise.resolve(), undefined, undefined, source.token);
+        source.cancel();
+
+        expect(poller.isPolling).toBe(false);
+    });
+
+    it('should not start with a canceled token', () => {
+        const poller = new AdaptivePoller({ initialDelay: TimeSpan.fromMinutes(1) });
+        const source = new CancellationTokenSource();
+        const operation = jest.fn(() => Promise.resolve());
+
+        source.cancel();
+        poller.start(operation, undefined, undefined, source.token);
+
+        expect(poller.isPolling).toBe(false);
+        expect(operation).not.toHaveBeenCalled();
+    });
+});
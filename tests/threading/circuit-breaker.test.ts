@@ -0,0 +1,66 @@
+﻿import { CircuitBreaker, CircuitOpenError, CircuitState, FixedDelay, RetryPolicy, TimeSpan, Wait } from 'dash-core';
+
+
+const fail = () => Promise.reject(new Error('failure'));
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+    it('should open after reaching the failure threshold', async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 2, coolDown: TimeSpan.fromMinutes(1) });
+
+        await expect(breaker.execute(fail)).rejects.toThrow('failure');
+        expect(breaker.state).toBe(CircuitState.CLOSED);
+
+        await expect(breaker.execute(fail)).rejects.toThrow('failure');
+        expect(breaker.state).toBe(CircuitState.OPEN);
+
+        const operation = jest.fn(succeed);
+        await expect(breaker.execute(operation)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(operation).not.toHaveBeenCalled();
+    });
+
+    it('should close after successful probes once the cool-down elapsed', async () => {
+        const onStateChange = jest.fn();
+        const breaker = new CircuitBreaker({ failureThreshold: 1, coolDown: TimeSpan.fromMilliseconds(10), halfOpenProbes: 2, onStateChange });
+
+        await expect(breaker.execute(fail)).rejects.toThrow('failure');
+        await Wait(TimeSpan.fromMilliseconds(20));
+
+        expect(breaker.state).toBe(CircuitState.HALF_OPEN);
+
+        await breaker.execute(succeed);
+        expect(breaker.state).toBe(CircuitState.HALF_OPEN);
+
+        await breaker.execute(succeed);
+        expect(breaker.state).toBe(CircuitState.CLOSED);
+
+        expect(onStateChange.mock.calls.map(([state]) => state)).toEqual([CircuitState.OPEN, CircuitState.HALF_OPEN, CircuitState.CLOSED]);
+    });
+
+    it('should reopen when a probe fails', async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, coolDown: TimeSpan.fromMilliseconds(10) });
+
+        await expect(breaker.execute(fail)).rejects.toThrow('failure');
+        await Wait(TimeSpan.fromMilliseconds(20));
+        await expect(breaker.execute(fail)).rejects.toThrow('failure');
+
+        expect(breaker.state).toBe(CircuitState.OPEN);
+    });
+
+    it('should not count errors rejected by isFailure', async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, isFailure: () => false });
+
+        await expect(breaker.execute(fail)).rejects.toThrow('failure');
+
+        expect(breaker.state).toBe(CircuitState.CLOSED);
+    });
+
+    it('should stop a retry policy once the circuit opens', async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 2, coolDown: TimeSpan.fromMinutes(1) });
+        const policy = new RetryPolicy({ strategy: new FixedDelay(TimeSpan.zero()), maxAttempts: 10, circuitBreaker: breaker });
+        const operation = jest.fn(fail);
+
+        await expect(policy.execute(operation)).rejects.toBeInstanceOf(CircuitOpenError);
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+});
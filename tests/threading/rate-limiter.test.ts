@@ -0,0 +1,49 @@
+﻿import { CancellationError, CancellationTokenSource, Rate, RateLimiter, RateLimiterMode, TimeSpan } from 'dash-core';
+
+
+describe('RateLimiter', () => {
+    it('should hand out the burst capacity and then refuse in token-bucket mode', () => {
+        const limiter = new RateLimiter(Rate.of(10, TimeSpan.fromMinutes(1)), { burst: 3 });
+
+        expect(limiter.tryAcquire(2)).toBe(true);
+        expect(limiter.tryAcquire()).toBe(true);
+        expect(limiter.tryAcquire()).toBe(false);
+    });
+
+    it('should limit permits per window in sliding-window mode', () => {
+        const limiter = new RateLimiter(Rate.of(2, TimeSpan.fromMinutes(1)), { mode: RateLimiterMode.SLIDING_WINDOW });
+
+        expect(limiter.tryAcquire()).toBe(true);
+        expect(limiter.tryAcquire()).toBe(true);
+        expect(limiter.available).toBe(0);
+        expect(limiter.tryAcquire()).toBe(false);
+    });
+
+    it('should reject counts above the capacity', () => {
+        const limiter = new RateLimiter(Rate.of(5, TimeSpan.fromSeconds(1)));
+
+        expect(() => limiter.tryAcquire(6)).toThrow('Permit count must be between 1 and 5');
+    });
+
+    it('should wait for refilled permits', async () => {
+        const limiter = new RateLimiter(Rate.of(1, TimeSpan.fromMilliseconds(50)));
+        const started = Date.now();
+
+        await limiter.acquire();
+        await limiter.acquire();
+
+        expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+    });
+
+    it('should reject a waiting acquire when canceled', async () => {
+        const limiter = new RateLimiter(Rate.of(1, TimeSpan.fromMinutes(1)));
+        const source = new CancellationTokenSource();
+
+        await limiter.acquire();
+
+        const pending = limiter.acquire(1, source.token);
+        source.cancel();
+
+        await expect(pending).rejects.toBeInstanceOf(CancellationError);
+    });
+});
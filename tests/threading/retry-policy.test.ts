@@ -0,0 +1,157 @@
+﻿import {
+    DecorrelatedJitterDelay,
+    ExponentialBackoff,
+    ExponentialDelay,
+    FixedDelay,
+    FullJitterDelay,
+    LinearDelay,
+    MetricsRegistry,
+    RetryPolicy,
+    TimeSpan
+} from 'dash-core';
+
+
+describe('Delay strategies', () => {
+    it('FixedDelay returns the same delay for every attempt', () => {
+        const strategy = new FixedDelay(TimeSpan.fromSeconds(2));
+
+        expect(strategy.next().totalMilliseconds).toBe(2000);
+    });
+
+    it('LinearDelay grows by the step and respects the cap', () => {
+        const strategy = new LinearDelay(TimeSpan.fromSeconds(1), TimeSpan.fromSeconds(2), TimeSpan.fromSeconds(4));
+
+        expect(strategy.next(1).totalMilliseconds).toBe(1000);
+        expect(strategy.next(2).totalMilliseconds).toBe(3000);
+        expect(strategy.next(3).totalMilliseconds).toBe(4000);
+    });
+
+    it('ExponentialDelay multiplies the previous delay and is exhausted past maxDelay', () => {
+        const strategy = new ExponentialDelay({
+            initialDelay: TimeSpan.fromSeconds(1),
+            maxDelay: TimeSpan.fromSeconds(4),
+            factor: 2
+        });
+
+        const first = strategy.next(1);
+        const second = strategy.next(2, first);
+        const third = strategy.next(3, second);
+
+        expect(first?.totalMilliseconds).toBe(1000);
+        expect(second?.totalMilliseconds).toBe(2000);
+        expect(third?.totalMilliseconds).toBe(4000);
+        expect(strategy.next(4, third)).toBeUndefined();
+    });
+
+    it('jitter strategies stay within their bounds', () => {
+        const full = new FullJitterDelay(TimeSpan.fromSeconds(1), TimeSpan.fromSeconds(5));
+        const decorrelated = new DecorrelatedJitterDelay(TimeSpan.fromSeconds(1), TimeSpan.fromSeconds(5));
+
+        for (let attempt = 1; attempt <= 10; attempt++) {
+            const fullDelay = full.next(attempt).totalMilliseconds;
+            const decorrelatedDelay = decorrelated.next(attempt, TimeSpan.fromSeconds(attempt)).totalMilliseconds;
+
+            expect(fullDelay).toBeGreaterThanOrEqual(0);
+            expect(fullDelay).toBeLessThanOrEqual(5000);
+            expect(decorrelatedDelay).toBeGreaterThanOrEqual(1000);
+            expect(decorrelatedDelay).toBeLessThanOrEqual(5000);
+        }
+    });
+});
+
+describe('RetryPolicy', () => {
+    const strategy = new FixedDelay(TimeSpan.zero());
+
+    it('should stop after maxAttempts and reject with the last error', async () => {
+        const policy = new RetryPolicy({ strategy, maxAttempts: 3 });
+        const operation = jest.fn(() => Promise.reject(new Error('failure')));
+
+        await expect(policy.execute(operation)).rejects.toThrow('failure');
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry errors rejected by the predicate', async () => {
+        const policy = new RetryPolicy({ strategy, maxAttempts: 5, shouldRetry: (error) => (error as Error).message !== 'fatal' });
+        const operation = jest.fn(() => Promise.reject(new Error('fatal')));
+
+        await expect(policy.execute(operation)).rejects.toThrow('fatal');
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call onRetry with the attempt number and next delay', async () => {
+        const onRetry = jest.fn();
+        const policy = new RetryPolicy({ strategy, maxAttempts: 3, onRetry });
+        let calls = 0;
+
+        const result = await policy.execute(async () => {
+            if (++calls < 3) throw new Error('failure');
+            return 'ok';
+        });
+
+        expect(result).toBe('ok');
+        expect(onRetry).toHaveBeenCalledTimes(2);
+        expect(onRetry.mock.calls[1][0].attempt).toBe(2);
+        expect(onRetry.mock.calls[1][0].delay.totalMilliseconds).toBe(0);
+    });
+
+    it('should give up when the next delay exceeds the time budget', async () => {
+        const policy = new RetryPolicy({ strategy: new FixedDelay(TimeSpan.fromMinutes(1)), timeBudget: TimeSpan.fromSeconds(30) });
+        const operation = jest.fn(() => Promise.reject(new Error('failure')));
+
+        await expect(policy.execute(operation)).rejects.toThrow('failure');
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('ExponentialBackoff', () => {
+    it('should retry until the maximum delay is reached', async () => {
+        const backoff = new ExponentialBackoff({
+            initialDelay: TimeSpan.fromMilliseconds(1),
+            maxDelay: TimeSpan.fromMilliseconds(4),
+            factor: 2
+        });
+        const operation = jest.fn(() => Promise.reject(new Error('failure')));
+
+        await expect(backoff.execute(operation)).rejects.toThrow('failure');
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not count jitter towards the maximum delay', async () => {
+        const backoff = new ExponentialBackoff({
+            initialDelay: TimeSpan.fromMilliseconds(1),
+            maxDelay: TimeSpan.fromMilliseconds(4),
+            factor: 2,
+            jitter: TimeSpan.fromMilliseconds(10)
+        });
+        const operation = jest.fn(() => Promise.reject(new Error('failure')));
+
+        await expect(backoff.execute(operation)).rejects.toThrow('failure');
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should let an explicit attempt limit replace the one of the maximum delay', async () => {
+        const backoff = new ExponentialBackoff({
+            initialDelay: TimeSpan.fromMilliseconds(1),
+            maxDelay: TimeSpan.fromMilliseconds(4),
+            factor: 2
+        }, { maxAttempts: 2 });
+        const operation = jest.fn(() => Promise.reject(new Error('failure')));
+
+        await expect(backoff.execute(operation)).rejects.toThrow('failure');
+        expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it('should count retries and exhausted operations in the metrics registry', async () => {
+        const metrics = new MetricsRegistry();
+        const backoff = new ExponentialBackoff({
+            initialDelay: TimeSpan.fromMilliseconds(1),
+            maxDelay: TimeSpan.fromMilliseconds(4),
+            factor: 2
+        }, { metrics, name: 'sync' });
+
+        await expect(backoff.execute(() => Promise.reject(new Error('failure')))).rejects.toThrow('failure');
+
+        expect(metrics.render()).toContain('retry_policy_retries_total{policy="sync"} 2');
+        expect(metrics.render()).toContain('retry_policy_exhausted_total{policy="sync"} 1');
+    });
+});
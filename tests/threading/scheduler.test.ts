@@ -0,0 +1,71 @@
+﻿import { CronExpression, OverlapPolicy, Scheduler, TimeSpan, Wait } from 'dash-core';
+
+
+describe('CronExpression', () => {
+    it('should compute the next occurrence for steps and ranges', () => {
+        const cron = CronExpression.parse('*/15 9-17 * * *');
+
+        expect(cron.next(new Date(2025, 0, 1, 9, 7))).toEqual(new Date(2025, 0, 1, 9, 15));
+        expect(cron.next(new Date(2025, 0, 1, 17, 45))).toEqual(new Date(2025, 0, 2, 9, 0));
+    });
+
+    it('should understand names, macros and day-of-week 7 as Sunday', () => {
+        expect(CronExpression.parse('0 12 * * mon-fri').next(new Date(2025, 0, 4, 0, 0))).toEqual(new Date(2025, 0, 6, 12, 0));
+        expect(CronExpression.parse('@monthly').next(new Date(2025, 1, 10))).toEqual(new Date(2025, 2, 1, 0, 0));
+        expect(CronExpression.parse('0 0 * * 7').next(new Date(2025, 0, 1))).toEqual(new Date(2025, 0, 5, 0, 0));
+    });
+
+    it('should match either day field when both are restricted', () => {
+        const cron = CronExpression.parse('0 0 13 * fri');
+
+        expect(cron.matches(new Date(2025, 5, 13))).toBe(true);
+        expect(cron.matches(new Date(2025, 5, 6))).toBe(true);
+        expect(cron.matches(new Date(2025, 5, 7))).toBe(false);
+    });
+
+    it('should treat day fields covering every day as unrestricted', () => {
+        const cron = CronExpression.parse('0 0 */1 * fri');
+
+        expect(cron.matches(new Date(2025, 5, 6))).toBe(true);
+        expect(cron.matches(new Date(2025, 5, 7))).toBe(false);
+        expect(CronExpression.parse('0 0 13 * 0-6').matches(new Date(2025, 5, 14))).toBe(false);
+    });
+
+    it('should reject malformed expressions', () => {
+        expect(() => CronExpression.parse('* * *')).toThrow('expected 5 fields');
+        expect(() => CronExpression.parse('60 * * * *')).toThrow("value '60' is out of range 0-59");
+        expect(() => CronExpression.parse('0 0 30 2 *').next()).toThrow('has no occurrence');
+    });
+});
+
+describe('Scheduler', () => {
+    it('should skip overlapping runs and wait for running jobs on shutdown', async () => {
+        const scheduler = new Scheduler();
+        let finished = 0;
+
+        scheduler.schedule('slow', TimeSpan.fromMilliseconds(10), async () => {
+            await Wait(TimeSpan.fromMilliseconds(35));
+            finished++;
+        }, { overlap: OverlapPolicy.SKIP });
+
+        await Wait(TimeSpan.fromMilliseconds(60));
+
+        const job = scheduler.getJob('slow')!;
+        expect(job.runs).toBeLessThanOrEqual(2);
+        expect(job.nextRunAt).toBeInstanceOf(Date);
+
+        await scheduler.shutdown();
+
+        expect(finished).toBe(scheduler.getJob('slow')!.runs);
+        expect(scheduler.getJob('slow')!.nextRunAt).toBeUndefined();
+    });
+
+    it('should reject duplicate job names', () => {
+        const scheduler = new Scheduler();
+        scheduler.schedule('job', '@daily', () => { });
+
+        expect(() => scheduler.schedule('job', '@daily', () => { })).toThrow("Job 'job' is already scheduled");
+
+        return scheduler.shutdown();
+    });
+});
@@ -0,0 +1,58 @@
+﻿import { Mutex, Semaphore, TimeSpan, TimeoutError, Wait } from 'dash-core';
+
+
+describe('Semaphore', () => {
+    it('should cap the number of concurrent operations', async () => {
+        const semaphore = new Semaphore(2);
+        let running = 0;
+        let peak = 0;
+
+        await Promise.all(Array.from({ length: 6 }, () => semaphore.runExclusive(async () => {
+            peak = Math.max(peak, ++running);
+            await Wait(TimeSpan.fromMilliseconds(5));
+            running--;
+        })));
+
+        expect(peak).toBe(2);
+        expect(semaphore.available).toBe(2);
+    });
+
+    it('should grant permits in FIFO order', async () => {
+        const semaphore = new Semaphore(1);
+        const order: number[] = [];
+
+        await semaphore.acquire();
+
+        const waiters = [1, 2, 3].map((id) => semaphore.acquire().then(() => {
+            order.push(id);
+            semaphore.release();
+        }));
+
+        semaphore.release();
+        await Promise.all(waiters);
+
+        expect(order).toEqual([1, 2, 3]);
+    });
+
+    it('should reject with TimeoutError when no permit is released in time', async () => {
+        const semaphore = new Semaphore(1);
+        await semaphore.acquire();
+
+        await expect(semaphore.acquire(TimeSpan.fromMilliseconds(10))).rejects.toBeInstanceOf(TimeoutError);
+        expect(semaphore.waiting).toBe(0);
+    });
+
+    it('should throw when released more times than acquired', () => {
+        expect(() => new Semaphore(1).release()).toThrow('Semaphore released more times than acquired');
+    });
+});
+
+describe('Mutex', () => {
+    it('should release the lock when the callback throws', async () => {
+        const mutex = new Mutex();
+
+        await expect(mutex.runExclusive(() => { throw new Error('failure'); })).rejects.toThrow('failure');
+
+        expect(mutex.isLocked).toBe(false);
+    });
+});
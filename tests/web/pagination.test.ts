@@ -0,0 +1,129 @@
+﻿import {
+    CancellationError,
+    CancellationTokenSource,
+    CursorPagination,
+    FixedDelay,
+    LinkHeaderPagination,
+    OffsetPagination,
+    PageNumberPagination,
+    RestRequest,
+    RetryPolicy,
+    TimeSpan
+} from 'dash-core';
+import { StubRequest, StubResponse, createStubAdapter, useAdapter } from './stub-adapter';
+
+
+describe('Pagination', () => {
+    const items = Array.from({ length: 7 }, (_, index) => index + 1);
+
+    function createClient(handler: (request: StubRequest) => StubResponse | Promise<StubResponse>, baseUrl: string = 'http://api.local') {
+        const { adapter, requests } = createStubAdapter(handler);
+        const client = useAdapter(new RestRequest({
+            baseUrl,
+            retryPolicy: new RetryPolicy({ strategy: new FixedDelay(TimeSpan.fromMilliseconds(1)), maxAttempts: 1 })
+        }), adapter);
+
+        return { client, requests };
+    }
+
+    function query(request: StubRequest, name: string): number {
+        return Number(new URL(request.url).searchParams.get(name));
+    }
+
+    it('should walk offsets past short pages until an empty page', async () => {
+        // The server caps every page at 2 items, below the requested limit
+        const { client, requests } = createClient((request) => ({ data: items.slice(query(request, 'offset'), query(request, 'offset') + 2) }));
+
+        const result = await client.paginate('/items', { strategy: new OffsetPagination(3) }).toArray();
+
+        expect(result).toEqual(items);
+        expect(requests.map((request) => query(request, 'offset'))).toEqual([0, 2, 4, 6, 7]);
+        expect(requests.every((request) => query(request, 'limit') === 3)).toBe(true);
+    });
+
+    it('should stop offsets at the reported total', async () => {
+        const { client, requests } = createClient((request) => ({
+            data: { total: items.length, results: items.slice(query(request, 'offset'), query(request, 'offset') + 3) }
+        }));
+
+        const result = await client.paginate('/items', {
+            strategy: new OffsetPagination(3, 'offset', 'limit', (body) => body.total),
+            items: (body) => body.results
+        }).toArray();
+
+        expect(result).toEqual(items);
+        expect(requests).toHaveLength(3);
+    });
+
+    it('should walk page numbers until a short page', async () => {
+        const { client, requests } = createClient((request) => ({ data: items.slice((query(request, 'page') - 1) * 3, query(request, 'page') * 3) }));
+
+        const result = await client.paginate('/items', { strategy: new PageNumberPagination(1, 'page', 3) }).toArray();
+
+        expect(result).toEqual(items);
+        expect(requests.map((request) => query(request, 'page'))).toEqual([1, 2, 3]);
+        expect(requests.every((request) => query(request, 'per_page') === 3)).toBe(true);
+    });
+
+    it('should follow cursors until none is returned', async () => {
+        const { client, requests } = createClient((request) => {
+            const start = Number(new URL(request.url).searchParams.get('cursor') ?? 0);
+            const next = start + 3 < items.length ? String(start + 3) : null;
+
+            return { data: { next, results: items.slice(start, start + 3) } };
+        });
+
+        const pages = [];
+
+        for await (const page of client.paginate('/items', { strategy: new CursorPagination((body) => body.next), items: (body) => body.results }).pages())
+            pages.push(page.items);
+
+        expect(pages).toEqual([[1, 2, 3], [4, 5, 6], [7]]);
+        expect(requests.map((request) => new URL(request.url).searchParams.get('cursor'))).toEqual([null, '3', '6']);
+    });
+
+    it('should follow relative and absolute next links', async () => {
+        const { client, requests } = createClient((request): StubResponse => {
+            const page = Number(new URL(request.url).searchParams.get('page') ?? 1);
+            const links = ['<items?page=2>; rel="next"', '<http://api.local/v1/items?page=3>; rel="next", <items?page=1>; rel="first"'];
+
+            return { headers: page <= links.length ? { link: links[page - 1] } : {}, data: [page] };
+        }, 'http://api.local/v1');
+
+        const result = await client.paginate('/items', { strategy: new LinkHeaderPagination() }).toArray();
+
+        expect(result).toEqual([1, 2, 3]);
+        expect(requests.map((request) => request.url)).toEqual([
+            'http://api.local/v1/items', 'http://api.local/v1/items?page=2', 'http://api.local/v1/items?page=3'
+        ]);
+    });
+
+    it('should stop at the maximum number of pages or items', async () => {
+        const { client, requests } = createClient((request) => ({ data: items.slice(query(request, 'offset'), query(request, 'offset') + 2) }));
+
+        expect(await client.paginate('/items', { strategy: new OffsetPagination(2), maxPages: 2 }).toArray()).toEqual([1, 2, 3, 4]);
+        expect(requests).toHaveLength(2);
+
+        expect(await client.paginate('/items', { strategy: new OffsetPagination(2), maxItems: 3 }).toArray()).toEqual([1, 2, 3]);
+        expect(requests).toHaveLength(4);
+    });
+
+    it('should stop when the token is canceled', async () => {
+        const source = new CancellationTokenSource();
+        const { client, requests } = createClient((request) => ({ data: items.slice(query(request, 'offset'), query(request, 'offset') + 2) }));
+        const seen: number[] = [];
+
+        const iterate = async () => {
+            for await (const item of client.paginate('/items', { strategy: new OffsetPagination(2) }, source.token)) {
+                seen.push(item);
+
+                if (item === 3)
+                    source.cancel();
+            }
+        };
+
+        await expect(iterate()).rejects.toBeInstanceOf(CancellationError);
+        expect(seen).toEqual([1, 2, 3, 4]);
+        expect(requests).toHaveLength(2);
+    });
+});
@@ -0,0 +1,166 @@
+﻿import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import { CancellationTokenSource, FileCacheStore, IODirectory, MemoryCacheStore, ResponseCache, RestRequest, TimeSpan } from 'dash-core';
+import { StubRequest, StubResponse, createStubAdapter, useAdapter } from './stub-adapter';
+
+
+describe('ResponseCache', () => {
+    function createClient(handler: (request: StubRequest) => StubResponse | Promise<StubResponse>, cache: ResponseCache = new ResponseCache()) {
+        const { adapter, requests } = createStubAdapter(handler);
+        const client = useAdapter(new RestRequest({ baseUrl: 'http://api.local', cache }), adapter);
+
+        return { client, requests };
+    }
+
+    it('should serve fresh responses from the cache and honour max-age', async () => {
+        const { client, requests } = createClient(() => ({ headers: { 'cache-control': 'max-age=60' }, data: { id: 1 } }));
+
+        expect((await client.get('/orders')).data).toEqual({ id: 1 });
+        expect((await client.get('/orders')).data).toEqual({ id: 1 });
+        expect(requests).toHaveLength(1);
+    });
+
+    it('should not store responses marked no-store', async () => {
+        const { client, requests } = createClient(() => ({ headers: { 'cache-control': 'no-store' }, data: 'live' }));
+
+        await client.get('/orders');
+        await client.get('/orders');
+
+        expect(requests).toHaveLength(2);
+    });
+
+    it('should revalidate stale responses with their ETag and Last-Modified', async () => {
+        const { client, requests } = createClient((request): StubResponse => request.headers.get('if-none-match') === '"v1"'
+            ? { status: 304, headers: { 'cache-control': 'max-age=60' } }
+            : { headers: { 'cache-control': 'no-cache', etag: '"v1"', 'last-modified': 'Wed, 01 Jan 2025 00:00:00 GMT' }, data: { id: 1 } });
+
+        await client.get('/orders');
+        const revalidated = await client.get('/orders');
+        await client.get('/orders');
+
+        expect(revalidated.status).toBe(200);
+        expect(revalidated.data).toEqual({ id: 1 });
+        expect(requests).toHaveLength(2);
+        expect(requests[1].headers.get('if-none-match')).toBe('"v1"');
+        expect(requests[1].headers.get('if-modified-since')).toBe('Wed, 01 Jan 2025 00:00:00 GMT');
+    });
+
+    it('should request the full response when a 304 arrives without a stored response', async () => {
+        let calls = 0;
+        const { client, requests } = createClient((): StubResponse => ++calls === 1 ? { status: 304 } : { data: 'full' });
+
+        const response = await client.get('/orders', { headers: { 'If-None-Match': '"stale"' } });
+
+        expect(response.status).toBe(200);
+        expect(response.data).toBe('full');
+        expect(requests).toHaveLength(2);
+        expect(requests.every((request) => !request.headers.has('if-none-match'))).toBe(true);
+    });
+
+    it('should collapse concurrent identical requests', async () => {
+        let release = () => { };
+        const gate = new Promise<void>((resolve) => release = resolve);
+        const { client, requests } = createClient(async () => { await gate; return { data: 'shared' }; });
+
+        const first = client.get('/orders');
+        const second = client.get('/orders');
+
+        release();
+
+        expect((await Promise.all([first, second])).map((response) => response.data)).toEqual(['shared', 'shared']);
+        expect(requests).toHaveLength(1);
+    });
+
+    it('should keep a shared request running when one of its callers cancels', async () => {
+        let release = () => { };
+        const gate = new Promise<void>((resolve) => release = resolve);
+        const { client, requests } = createClient(async () => { await gate; return { data: 'shared' }; });
+        const source = new CancellationTokenSource();
+
+        const canceled = client.get('/orders', undefined, source.token);
+        const other = client.get('/orders');
+
+        source.cancel();
+        release();
+
+        await expect(canceled).rejects.toThrow(/cancel/i);
+        expect((await other).data).toBe('shared');
+        expect(requests).toHaveLength(1);
+    });
+
+    it('should not share responses across credentials or varying headers', async () => {
+        const { client, requests } = createClient((request) => ({
+            headers: { 'cache-control': 'max-age=60', vary: 'Accept-Language' },
+            data: `${request.headers.get('authorization')} ${request.headers.get('accept-language')}`
+        }));
+
+        const get = (authorization: string, language: string) =>
+            client.get('/me', { headers: { Authorization: authorization, 'Accept-Language': language } }).then((response) => response.data);
+
+        expect(await get('Bearer ann', 'en')).toBe('Bearer ann en');
+        expect(await get('Bearer bob', 'en')).toBe('Bearer bob en');
+        expect(await get('Bearer bob', 'de')).toBe('Bearer bob de');
+        expect(await get('Bearer bob', 'de')).toBe('Bearer bob de');
+        expect(requests).toHaveLength(3);
+    });
+
+    it('should not share responses across credentials set by request interceptors', async () => {
+        const { client, requests } = createClient((request) => ({
+            headers: { 'cache-control': 'max-age=60' },
+            data: request.headers.get('authorization')
+        }));
+        let token = 'Bearer ann';
+
+        client.useRequestInterceptor((config) => ({ ...config, headers: { ...config.headers, Authorization: token } }));
+
+        expect((await client.get('/me')).data).toBe('Bearer ann');
+        token = 'Bearer bob';
+        expect((await client.get('/me')).data).toBe('Bearer bob');
+        expect((await client.get('/me')).data).toBe('Bearer bob');
+        expect(requests).toHaveLength(2);
+    });
+
+    it('should use the TTL when the server does not specify a lifetime', async () => {
+        const cache = new ResponseCache({ ttl: TimeSpan.fromMilliseconds(20), store: new MemoryCacheStore(10) });
+        const { client, requests } = createClient(() => ({ data: 'value' }), cache);
+
+        await client.get('/orders');
+        await client.get('/orders');
+        await new Promise((resolve) => setTimeout(resolve, 40));
+        await client.get('/orders');
+
+        expect(requests).toHaveLength(2);
+    });
+
+    describe('FileCacheStore', () => {
+        let directory: string;
+
+        beforeEach(async () => {
+            directory = await fs.mkdtemp(path.join(os.tmpdir(), 'dash-core-cache-'));
+        });
+
+        afterEach(async () => {
+            await IODirectory.remove(directory);
+        });
+
+        it('should keep responses across cache instances without storing credentials', async () => {
+            const handler = () => ({ headers: { 'cache-control': 'max-age=60' }, data: { id: 1 } });
+            const first = createClient(handler, new ResponseCache({ store: new FileCacheStore(directory) }));
+            const second = createClient(handler, new ResponseCache({ store: new FileCacheStore(directory) }));
+
+            await first.client.get('/orders', { headers: { Authorization: 'Bearer secret-token' } });
+            const cached = await second.client.get('/orders', { headers: { Authorization: 'Bearer secret-token' } });
+
+            expect(cached.data).toEqual({ id: 1 });
+            expect(second.requests).toHaveLength(0);
+
+            const files = await fs.readdir(directory);
+            const content = await fs.readFile(path.join(directory, files[0]), 'utf-8');
+
+            expect(files).toHaveLength(1);
+            expect(content).not.toContain('secret-token');
+        });
+    });
+});
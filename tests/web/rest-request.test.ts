@@ -0,0 +1,103 @@
+﻿import { AxiosError } from 'axios';
+
+import { FixedDelay, HttpError, RestRequest, RetryPolicy, TimeSpan } from 'dash-core';
+import { StubRequest, StubResponse, createStubAdapter, useAdapter } from './stub-adapter';
+
+
+describe('RestRequest', () => {
+    function createClient(handler: (request: StubRequest) => StubResponse | Promise<StubResponse>, timeout?: TimeSpan) {
+        const { adapter, requests } = createStubAdapter(handler);
+        const client = useAdapter(new RestRequest({
+            baseUrl: 'http://api.local',
+            retryPolicy: new RetryPolicy({ strategy: new FixedDelay(TimeSpan.fromMilliseconds(1)), maxAttempts: 3 }),
+            timeout
+        }), adapter);
+
+        return { client, requests };
+    }
+
+    it('should send every verb with its body', async () => {
+        const { client, requests } = createClient((request) => ({ data: request.method }));
+
+        const responses = await Promise.all([
+            client.get('/items'),
+            client.head('/items'),
+            client.delete('/items/1'),
+            client.post('/items', { name: 'a' }),
+            client.put('/items/1', { name: 'b' }),
+            client.patch('/items/1', { name: 'c' })
+        ]);
+
+        expect(responses.map((response) => response.data)).toEqual(['GET', 'HEAD', 'DELETE', 'POST', 'PUT', 'PATCH']);
+        expect(requests.map((request) => request.url)).toEqual([
+            'http://api.local/items', 'http://api.local/items', 'http://api.local/items/1',
+            'http://api.local/items', 'http://api.local/items/1', 'http://api.local/items/1'
+        ]);
+        expect(requests.slice(3).map((request) => JSON.parse(String(request.data)).name)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should apply request interceptors to every attempt and response interceptors to the result', async () => {
+        let calls = 0;
+        const { client, requests } = createClient((): StubResponse => ++calls === 1 ? { status: 503 } : { data: { value: 1 } });
+        let token = 0;
+
+        client.useRequestInterceptor((config) => ({ ...config, headers: { ...config.headers, 'X-Token': String(++token) } }));
+        const remove = client.useResponseInterceptor((response) => ({ ...response, data: { ...response.data, intercepted: true } }));
+
+        expect((await client.get('/items')).data).toEqual({ value: 1, intercepted: true });
+        expect(requests.map((request) => request.headers.get('x-token'))).toEqual(['1', '2']);
+
+        remove();
+
+        expect((await client.get('/items')).data).toEqual({ value: 1 });
+    });
+
+    it('should pass the timeout of the request or the client as milliseconds', async () => {
+        const { client, requests } = createClient(() => ({}), TimeSpan.fromSeconds(2));
+
+        await client.get('/default');
+        await client.get('/custom', { timeout: TimeSpan.fromMilliseconds(250) });
+
+        expect(requests.map((request) => request.config.timeout)).toEqual([2000, 250]);
+    });
+
+    it('should reject with an HttpError describing the last failure once retries are exhausted', async () => {
+        const { client, requests } = createClient(() => ({ status: 503, headers: { 'x-request-id': 'abc' }, data: { error: 'busy' } }));
+
+        const error: HttpError = await client.get('/items').catch((reason) => reason);
+
+        expect(error).toBeInstanceOf(HttpError);
+        expect(error.name).toBe('HttpError');
+        expect(error.message).toBe('GET /items failed after 3 attempt(s): Request failed with status code 503');
+        expect(error).toMatchObject({ method: 'GET', url: '/items', status: 503, body: { error: 'busy' }, attempts: 3, isNetworkError: false });
+        expect(error.headers?.['x-request-id']).toBe('abc');
+        expect(requests).toHaveLength(3);
+    });
+
+    it('should not retry client errors', async () => {
+        const { client, requests } = createClient(() => ({ status: 404 }));
+
+        await expect(client.delete('/items/1')).rejects.toMatchObject({ status: 404, attempts: 1 });
+        expect(requests).toHaveLength(1);
+    });
+
+    it('should report network errors without a status', async () => {
+        const { client } = createClient((request) => { throw new AxiosError('socket hang up', 'ECONNRESET', request.config); });
+
+        const error: HttpError = await client.get('/items').catch((reason) => reason);
+
+        expect(error.isNetworkError).toBe(true);
+        expect(error.status).toBeUndefined();
+        expect(error.code).toBe('ECONNRESET');
+        expect(error.attempts).toBe(3);
+    });
+
+    it('should accept the positional arguments of earlier versions', async () => {
+        const backoff = { initialDelay: TimeSpan.fromMilliseconds(1), maxDelay: TimeSpan.fromMilliseconds(2), factor: 2 };
+        const { adapter, requests } = createStubAdapter(() => ({ status: 500 }));
+        const client = useAdapter(new RestRequest(true, backoff), adapter);
+
+        await expect(client.get('http://api.local/items')).rejects.toBeInstanceOf(HttpError);
+        expect(requests.length).toBeGreaterThan(0);
+    });
+});
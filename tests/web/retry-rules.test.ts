@@ -0,0 +1,58 @@
+﻿import { AxiosError, AxiosHeaders, AxiosRequestConfig, AxiosResponse } from 'axios';
+
+import { HttpRetryRules } from 'dash-core';
+
+
+function createError(method: string, status?: number, headers: Record<string, string> = {}, requestHeaders: Record<string, string> = {}): AxiosError {
+    const config = { method, headers: new AxiosHeaders(requestHeaders) };
+    const response = status === undefined ? undefined : { status, headers, config, data: null, statusText: '' } as AxiosResponse;
+
+    return new AxiosError('failure', status === undefined ? AxiosError.ERR_NETWORK : AxiosError.ERR_BAD_RESPONSE, config, undefined, response);
+}
+
+describe('HttpRetryRules', () => {
+    const rules = new HttpRetryRules();
+
+    it('should retry network errors, 408, 429 and 5xx by default', () => {
+        expect(rules.shouldRetry(createError('get'))).toBe(true);
+        expect(rules.shouldRetry(createError('get', 408))).toBe(true);
+        expect(rules.shouldRetry(createError('get', 429))).toBe(true);
+        expect(rules.shouldRetry(createError('get', 503))).toBe(true);
+    });
+
+    it('should not retry other client errors or non-HTTP errors', () => {
+        expect(rules.shouldRetry(createError('get', 400))).toBe(false);
+        expect(rules.shouldRetry(createError('get', 404))).toBe(false);
+        expect(rules.shouldRetry(new Error('failure'))).toBe(false);
+    });
+
+    it('should retry POST only with an idempotency key', () => {
+        expect(rules.shouldRetry(createError('post', 503))).toBe(false);
+        expect(rules.shouldRetry(createError('post', 503, {}, { 'Idempotency-Key': 'key' }))).toBe(true);
+    });
+
+    it('should generate an idempotency key for non-idempotent requests when enabled', () => {
+        const generating = new HttpRetryRules({ generateIdempotencyKey: true });
+
+        const post = generating.prepare<AxiosRequestConfig>({ method: 'post', headers: {} });
+        const get = generating.prepare<AxiosRequestConfig>({ method: 'get' });
+
+        expect(typeof post.headers?.['Idempotency-Key']).toBe('string');
+        expect(get.headers).toBeUndefined();
+        expect(generating.prepare(post)).toBe(post);
+    });
+
+    it('should read Retry-After in seconds and as a date', () => {
+        expect(rules.getRetryAfter(createError('get', 429, { 'retry-after': '3' }))?.totalMilliseconds).toBe(3000);
+
+        const date = new Date(Date.now() + 10000).toUTCString();
+        const delay = rules.getRetryAfter(createError('get', 503, { 'retry-after': date }))!.totalMilliseconds;
+
+        expect(delay).toBeGreaterThan(8000);
+        expect(delay).toBeLessThanOrEqual(10000);
+    });
+
+    it('should not retry when Retry-After exceeds the maximum', () => {
+        expect(rules.shouldRetry(createError('get', 429, { 'retry-after': '3600' }))).toBe(false);
+    });
+});
@@ -0,0 +1,63 @@
+﻿import axios, { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+import { RestRequest } from 'dash-core';
+
+
+/** A request received by a stubbed adapter. */
+export type StubRequest = {
+    method: string,
+    url: string,
+    headers: AxiosHeaders,
+    data: unknown,
+    config: InternalAxiosRequestConfig
+}
+
+/** The response a stubbed adapter answers with. */
+export type StubResponse = {
+    status?: number,
+    headers?: Record<string, string>,
+    data?: unknown
+}
+
+/**
+ * Creates an axios adapter answering every request through the handler, rejecting statuses the request does not accept
+ * like the real adapters do. Every request is recorded in `requests`.
+ */
+export function createStubAdapter(handler: (request: StubRequest) => StubResponse | Promise<StubResponse>): { adapter: AxiosAdapter, requests: StubRequest[] } {
+    const requests: StubRequest[] = [];
+
+    const adapter: AxiosAdapter = async (config) => {
+        const url = axios.getUri(config);
+        const request: StubRequest = { method: (config.method ?? 'get').toUpperCase(), url, headers: AxiosHeaders.from(config.headers), data: config.data, config };
+
+        requests.push(request);
+
+        if (config.signal?.aborted)
+            throw new AxiosError('canceled', AxiosError.ERR_CANCELED, config);
+
+        const result = await handler(request);
+        const response: AxiosResponse = {
+            status: result.status ?? 200,
+            statusText: '',
+            headers: result.headers ?? {},
+            data: result.data ?? null,
+            config,
+            request: {}
+        };
+
+        if (config.validateStatus && !config.validateStatus(response.status))
+            throw new AxiosError(`Request failed with status code ${response.status}`, AxiosError.ERR_BAD_RESPONSE, config, {}, response);
+
+        return response;
+    };
+
+    return { adapter, requests };
+}
+
+/**
+ * Routes every request of the client through the adapter.
+ */
+export function useAdapter(client: RestRequest, adapter: AxiosAdapter): RestRequest {
+    client.useRequestInterceptor((config) => ({ ...config, adapter }));
+    return client;
+}